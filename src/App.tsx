@@ -1,6 +1,7 @@
-import { useEffect, useMemo, useState } from 'react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import type { CSSProperties, ChangeEvent, ReactNode } from 'react';
 import { BrowserRouter, Link, Navigate, Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom';
+import atsProfileConfig from './atsProfiles.json';
 
 type ArtifactStatus = '' | 'worked' | 'error';
 
@@ -25,19 +26,36 @@ type BuildStep = {
   prompt: string;
 };
 
+type ResumeDate = {
+  month: number | null;
+  year: number | null;
+};
+
+type DateRange = {
+  start: ResumeDate;
+  end: ResumeDate;
+  current: boolean;
+  raw: string;
+};
+
 type EducationEntry = {
   id: string;
   school: string;
   degree: string;
-  year: string;
+  dates: DateRange;
+};
+
+type ExperienceBullet = {
+  id: string;
+  text: string;
 };
 
 type ExperienceEntry = {
   id: string;
   company: string;
   role: string;
-  duration: string;
-  bullet: string;
+  dates: DateRange;
+  bullets: ExperienceBullet[];
 };
 
 type ProjectEntry = {
@@ -47,6 +65,60 @@ type ProjectEntry = {
   techStack: string[];
   liveUrl: string;
   githubUrl: string;
+  hidden: boolean;
+};
+
+type LanguageProficiency = 'Native' | 'Fluent' | 'Professional' | 'Conversational' | 'Basic';
+
+type CertificationEntry = {
+  id: string;
+  name: string;
+  issuer: string;
+  date: ResumeDate;
+  credentialUrl: string;
+};
+
+type AwardEntry = {
+  id: string;
+  title: string;
+  issuer: string;
+  date: ResumeDate;
+  description: string;
+};
+
+type LanguageEntry = {
+  id: string;
+  language: string;
+  proficiency: LanguageProficiency | '';
+};
+
+type VolunteerEntry = {
+  id: string;
+  organization: string;
+  role: string;
+  dates: DateRange;
+  description: string;
+};
+
+type PublicationEntry = {
+  id: string;
+  title: string;
+  publisher: string;
+  date: ResumeDate;
+  url: string;
+};
+
+type CustomSectionItem = {
+  id: string;
+  title: string;
+  subtitle: string;
+  description: string;
+};
+
+type CustomSection = {
+  id: string;
+  title: string;
+  items: CustomSectionItem[];
 };
 
 type ResumeDraft = {
@@ -61,11 +133,60 @@ type ResumeDraft = {
   technicalSkills: string[];
   softSkills: string[];
   toolsTechnologies: string[];
+  certifications: CertificationEntry[];
+  awards: AwardEntry[];
+  languages: LanguageEntry[];
+  volunteering: VolunteerEntry[];
+  publications: PublicationEntry[];
+  customSections: CustomSection[];
   github: string;
   linkedin: string;
 };
 
-type ResumeTemplate = 'Classic' | 'Modern' | 'Minimal';
+type DraftListSection = 'certifications' | 'awards' | 'languages' | 'volunteering' | 'publications' | 'customSections';
+
+type ResumeTemplateSidebar = {
+  side: 'left' | 'right';
+  width: number;
+  filled: boolean;
+  sections: ResumeSectionId[];
+};
+
+type ResumeTemplateRegions = {
+  header: 'top' | 'sidebar';
+  sidebar: ResumeTemplateSidebar | null;
+};
+
+type ResumeFontFamily = 'sans' | 'serif';
+
+type ResumeTemplatePrintRules = {
+  fontFamily: ResumeFontFamily;
+  headingFontFamily: ResumeFontFamily;
+  fontSize: number;
+  lineHeight: number;
+  headingSize: number;
+  nameSize: number;
+  margin: number;
+  sectionGap: number;
+  entryGap: number;
+  headingRule: boolean;
+  uppercaseHeadings: boolean;
+  centeredHeader: boolean;
+};
+
+type ResumeTemplateDefinition<Id extends string = ResumeTemplate> = {
+  id: Id;
+  label: string;
+  description: string;
+  regions: ResumeTemplateRegions;
+  // Default section order for new resumes; unlisted sections follow in the usual order.
+  sectionOrder?: ResumeSectionId[];
+  thumbnailLines: number;
+  print: ResumeTemplatePrintRules;
+  latexStyle: string;
+  htmlStyle: string;
+};
+
 type AccentThemeId = 'teal' | 'navy' | 'burgundy' | 'forest' | 'charcoal';
 type AccentTheme = {
   id: AccentThemeId;
@@ -73,6 +194,116 @@ type AccentTheme = {
   color: string;
 };
 
+type FontPairingId = 'template' | 'source' | 'spectral-source' | 'source-spectral' | 'spectral';
+type FontPairing = {
+  id: FontPairingId;
+  label: string;
+  heading?: ResumeFontFamily;
+  body?: ResumeFontFamily;
+};
+
+type LineSpacingId = 'tight' | 'standard' | 'relaxed';
+type MarginDensityId = 'narrow' | 'standard' | 'wide';
+
+type ResumeTypography = {
+  fontPairingId: FontPairingId;
+  fontSize: number | null;
+  lineSpacing: LineSpacingId;
+  marginDensity: MarginDensityId;
+};
+
+type PageSizeId = 'a4' | 'letter';
+type PageSize = {
+  id: PageSizeId;
+  label: string;
+  width: number;
+  height: number;
+};
+
+type ResumeSectionId =
+  | 'summary'
+  | 'education'
+  | 'experience'
+  | 'projects'
+  | 'skills'
+  | 'certifications'
+  | 'awards'
+  | 'languages'
+  | 'volunteering'
+  | 'publications'
+  | 'custom'
+  | 'links';
+
+type ResumeSectionLayout = {
+  order: ResumeSectionId[];
+  hidden: ResumeSectionId[];
+};
+
+type ResumeRecord = {
+  id: string;
+  name: string;
+  template: ResumeTemplate;
+  accentColor: string;
+  typography: ResumeTypography;
+  pageSize: PageSizeId;
+  fitToOnePage: boolean;
+  sectionLayout: ResumeSectionLayout;
+  atsProfileId: AtsProfileId;
+  draft: ResumeDraft;
+  jobDescription: string;
+  coverLetter: CoverLetter;
+  coverLetterPageSize: PageSizeId;
+  variant: ResumeVariant | null;
+  updatedAt: string;
+};
+
+type ResumeVariant = {
+  baseId: string;
+  snapshot: ResumeDraft;
+};
+
+type CoverLetterStructureId = 'classic' | 'achievements' | 'projects';
+
+type CoverLetter = {
+  company: string;
+  role: string;
+  hiringManager: string;
+  structure: CoverLetterStructureId;
+  body: string;
+};
+
+type ResumeLibrary = {
+  activeId: string;
+  resumes: ResumeRecord[];
+};
+
+type ApplicationStatus = 'saved' | 'applied' | 'interview' | 'offer' | 'rejected';
+
+type ResumeSnapshot = {
+  resumeId: string;
+  resumeName: string;
+  template: ResumeTemplate;
+  accentColor: string;
+  typography: ResumeTypography;
+  sectionLayout: ResumeSectionLayout;
+  atsProfileId: AtsProfileId;
+  draft: ResumeDraft;
+  takenAt: string;
+};
+
+type JobApplication = {
+  id: string;
+  company: string;
+  role: string;
+  jobDescription: string;
+  status: ApplicationStatus;
+  appliedOn: string;
+  followUpOn: string;
+  notes: string;
+  resume: ResumeSnapshot | null;
+  updatedAt: string;
+};
+
 const STEPS: BuildStep[] = [
   {
     number: 1,
@@ -139,12 +370,20 @@ const STEP7_CHECKLIST_KEY = 'rb_step_7_checklist';
 const RESUME_STORAGE_KEY = 'resumeBuilderData';
 const TEMPLATE_STORAGE_KEY = 'resumeBuilderTemplate';
 const ACCENT_STORAGE_KEY = 'resumeBuilderAccentTheme';
+const RESUME_LIBRARY_KEY = 'resumeBuilderLibrary';
+const WRITING_ASSISTANT_KEY = 'rb_writing_assistant';
+const LLM_API_KEY_SESSION_KEY = 'rb_writing_assistant_api_key';
+const APPLICATIONS_KEY = 'rb_applications';
+const PROJECT_DESCRIPTION_LIMIT = 200;
+const APPLICATIONS_SAVE_DELAY_MS = 400;
+const LLM_REQUEST_TIMEOUT_MS = 30_000;
 const NAV_ITEMS = [
   { label: 'Builder', to: '/builder' },
   { label: 'Preview', to: '/preview' },
+  { label: 'Cover Letter', to: '/cover-letter' },
+  { label: 'Applications', to: '/applications' },
   { label: 'Proof', to: '/proof' },
 ];
-const TEMPLATE_OPTIONS: ResumeTemplate[] = ['Classic', 'Modern', 'Minimal'];
 const ACCENT_THEMES: AccentTheme[] = [
   { id: 'teal', label: 'Teal', color: 'hsl(168, 60%, 40%)' },
   { id: 'navy', label: 'Navy', color: 'hsl(220, 60%, 35%)' },
@@ -152,10 +391,220 @@ const ACCENT_THEMES: AccentTheme[] = [
   { id: 'forest', label: 'Forest', color: 'hsl(150, 50%, 30%)' },
   { id: 'charcoal', label: 'Charcoal', color: 'hsl(0, 0%, 25%)' },
 ];
-const ACTION_VERBS = ['Built', 'Developed', 'Designed', 'Implemented', 'Led', 'Improved', 'Created', 'Optimized', 'Automated'];
-const TECHNICAL_SUGGESTIONS = ['TypeScript', 'React', 'Node.js', 'PostgreSQL', 'GraphQL'];
-const SOFT_SUGGESTIONS = ['Team Leadership', 'Problem Solving'];
-const TOOLS_SUGGESTIONS = ['Git', 'Docker', 'AWS'];
+const RESUME_SECTIONS: { id: ResumeSectionId; label: string }[] = [
+  { id: 'summary', label: 'Summary' },
+  { id: 'education', label: 'Education' },
+  { id: 'experience', label: 'Experience' },
+  { id: 'projects', label: 'Projects' },
+  { id: 'skills', label: 'Skills' },
+  { id: 'certifications', label: 'Certifications' },
+  { id: 'awards', label: 'Awards' },
+  { id: 'languages', label: 'Languages' },
+  { id: 'volunteering', label: 'Volunteering' },
+  { id: 'publications', label: 'Publications' },
+  { id: 'custom', label: 'Custom Sections' },
+  { id: 'links', label: 'Links' },
+];
+
+const SINGLE_COLUMN: ResumeTemplateRegions = { header: 'top', sidebar: null };
+
+const defineResumeTemplates = <Id extends string>(templates: ResumeTemplateDefinition<Id>[]) => templates;
+
+const RESUME_TEMPLATES = defineResumeTemplates([
+  {
+    id: 'Classic',
+    label: 'Classic',
+    description: 'Single column with ruled section headings.',
+    regions: SINGLE_COLUMN,
+    thumbnailLines: 3,
+    print: {
+      fontFamily: 'sans',
+      headingFontFamily: 'sans',
+      fontSize: 10,
+      lineHeight: 1.4,
+      headingSize: 12,
+      nameSize: 20,
+      margin: 48,
+      sectionGap: 14,
+      entryGap: 6,
+      headingRule: true,
+      uppercaseHeadings: false,
+      centeredHeader: false,
+    },
+    latexStyle: 'classic',
+    htmlStyle: 'section { border-bottom: 1px solid var(--accent); padding-bottom: 8px; }',
+  },
+  {
+    id: 'Modern',
+    label: 'Modern',
+    description: 'Accent sidebar with your name, skills, languages and links.',
+    regions: { header: 'sidebar', sidebar: { side: 'left', width: 0.3, filled: true, sections: ['skills', 'languages', 'links'] } },
+    thumbnailLines: 3,
+    print: {
+      fontFamily: 'sans',
+      headingFontFamily: 'sans',
+      fontSize: 10,
+      lineHeight: 1.4,
+      headingSize: 12,
+      nameSize: 20,
+      margin: 48,
+      sectionGap: 14,
+      entryGap: 6,
+      headingRule: false,
+      uppercaseHeadings: false,
+      centeredHeader: false,
+    },
+    latexStyle: 'banking',
+    htmlStyle: 'header { background: var(--accent); color: #fff; padding: 16px; } header h1 { color: #fff; }',
+  },
+  {
+    id: 'Minimal',
+    label: 'Minimal',
+    description: 'Airy single column without rules.',
+    regions: SINGLE_COLUMN,
+    thumbnailLines: 3,
+    print: {
+      fontFamily: 'sans',
+      headingFontFamily: 'sans',
+      fontSize: 10,
+      lineHeight: 1.4,
+      headingSize: 12,
+      nameSize: 20,
+      margin: 48,
+      sectionGap: 20,
+      entryGap: 6,
+      headingRule: false,
+      uppercaseHeadings: false,
+      centeredHeader: false,
+    },
+    latexStyle: 'casual',
+    htmlStyle: 'section { margin-top: 24px; }',
+  },
+  {
+    id: 'Compact',
+    label: 'Compact',
+    description: 'Smaller type and tight spacing to fit more on one page.',
+    regions: SINGLE_COLUMN,
+    thumbnailLines: 6,
+    print: {
+      fontFamily: 'sans',
+      headingFontFamily: 'sans',
+      fontSize: 9,
+      lineHeight: 1.3,
+      headingSize: 10.5,
+      nameSize: 16,
+      margin: 32,
+      sectionGap: 8,
+      entryGap: 3,
+      headingRule: true,
+      uppercaseHeadings: true,
+      centeredHeader: false,
+    },
+    latexStyle: 'classic',
+    htmlStyle:
+      'section { margin-top: 8px; } h2 { font-size: 14px; text-transform: uppercase; border-bottom: 1px solid var(--accent); }',
+  },
+  {
+    id: 'Executive',
+    label: 'Executive',
+    description: 'Centered header over two columns, with skills and credentials on the right.',
+    regions: {
+      header: 'top',
+      sidebar: { side: 'right', width: 0.32, filled: false, sections: ['skills', 'certifications', 'awards', 'languages', 'links'] },
+    },
+    thumbnailLines: 4,
+    print: {
+      fontFamily: 'sans',
+      headingFontFamily: 'sans',
+      fontSize: 10,
+      lineHeight: 1.4,
+      headingSize: 11.5,
+      nameSize: 22,
+      margin: 44,
+      sectionGap: 14,
+      entryGap: 6,
+      headingRule: true,
+      uppercaseHeadings: true,
+      centeredHeader: true,
+    },
+    latexStyle: 'banking',
+    htmlStyle:
+      'header { text-align: center; } h2 { text-transform: uppercase; letter-spacing: 0.08em; border-bottom: 1px solid var(--accent); }',
+  },
+  {
+    id: 'Academic',
+    label: 'Academic CV',
+    description: 'Serif single column with a centered header, suited to education, research and publications.',
+    regions: SINGLE_COLUMN,
+    sectionOrder: ['education', 'publications'],
+    thumbnailLines: 5,
+    print: {
+      fontFamily: 'serif',
+      headingFontFamily: 'serif',
+      fontSize: 10.5,
+      lineHeight: 1.4,
+      headingSize: 12,
+      nameSize: 20,
+      margin: 56,
+      sectionGap: 16,
+      entryGap: 6,
+      headingRule: true,
+      uppercaseHeadings: false,
+      centeredHeader: true,
+    },
+    latexStyle: 'oldstyle',
+    htmlStyle:
+      'header { text-align: center; } h2 { border-bottom: 1px solid var(--accent); padding-bottom: 4px; }',
+  },
+]);
+
+type ResumeTemplate = (typeof RESUME_TEMPLATES)[number]['id'];
+
+const RESUME_FONT_STACKS: Record<ResumeFontFamily, string> = {
+  sans: "'Source Sans 3', sans-serif",
+  serif: "'Spectral', Georgia, serif",
+};
+
+const FONT_PAIRINGS: FontPairing[] = [
+  { id: 'template', label: 'Template Default' },
+  { id: 'source', label: 'Source Sans 3', heading: 'sans', body: 'sans' },
+  { id: 'spectral-source', label: 'Spectral headings, Source Sans 3 body', heading: 'serif', body: 'sans' },
+  { id: 'source-spectral', label: 'Source Sans 3 headings, Spectral body', heading: 'sans', body: 'serif' },
+  { id: 'spectral', label: 'Spectral', heading: 'serif', body: 'serif' },
+];
+
+const FONT_SIZE_OPTIONS = [9, 9.5, 10, 10.5, 11, 11.5, 12];
+
+const LINE_SPACINGS: { id: LineSpacingId; label: string; factor: number }[] = [
+  { id: 'tight', label: 'Tight', factor: 0.9 },
+  { id: 'standard', label: 'Standard', factor: 1 },
+  { id: 'relaxed', label: 'Relaxed', factor: 1.15 },
+];
+
+const MARGIN_DENSITIES: { id: MarginDensityId; label: string; factor: number }[] = [
+  { id: 'narrow', label: 'Narrow', factor: 0.65 },
+  { id: 'standard', label: 'Standard', factor: 1 },
+  { id: 'wide', label: 'Wide', factor: 1.3 },
+];
+
+const DEFAULT_TYPOGRAPHY: ResumeTypography = { fontPairingId: 'template', fontSize: null, lineSpacing: 'standard', marginDensity: 'standard' };
+
+const PAGE_SIZES: PageSize[] = [
+  { id: 'a4', label: 'A4', width: 595.28, height: 841.89 },
+  { id: 'letter', label: 'US Letter', width: 612, height: 792 },
+];
+
+const LANGUAGE_PROFICIENCIES: LanguageProficiency[] = ['Native', 'Fluent', 'Professional', 'Conversational', 'Basic'];
+
+const ACTION_VERBS = [
+  'Accelerated', 'Achieved', 'Analyzed', 'Architected', 'Automated', 'Built', 'Coached', 'Collaborated', 'Configured',
+  'Consolidated', 'Coordinated', 'Created', 'Cut', 'Debugged', 'Decreased', 'Delivered', 'Deployed', 'Designed', 'Developed',
+  'Directed', 'Drove', 'Eliminated', 'Enabled', 'Engineered', 'Established', 'Expanded', 'Generated', 'Grew', 'Implemented', 'Improved',
+  'Headed', 'Increased', 'Integrated', 'Introduced', 'Launched', 'Led', 'Maintained', 'Managed', 'Mentored', 'Migrated',
+  'Modernized', 'Negotiated', 'Optimized', 'Orchestrated', 'Organized', 'Oversaw', 'Owned', 'Pioneered', 'Presented', 'Prototyped', 'Published',
+  'Rebuilt', 'Redesigned', 'Reduced', 'Refactored', 'Resolved', 'Restructured', 'Scaled', 'Secured', 'Shipped', 'Simplified',
+  'Spearheaded', 'Streamlined', 'Supported', 'Tested', 'Trained', 'Transformed', 'Wrote',
+];
 const STEP7_CHECKLIST_ITEMS = [
   'All form sections save to localStorage',
   'Live preview updates in real-time',
@@ -169,8 +618,49 @@ const STEP7_CHECKLIST_ITEMS = [
   'No console errors on any page',
 ];
 
+type AtsCheckId =
+  | 'contact-field'
+  | 'summary-length'
+  | 'summary-action-verb'
+  | 'experience-bullets'
+  | 'work-or-volunteering'
+  | 'quantified-bullets'
+  | 'education'
+  | 'skills'
+  | 'projects'
+  | 'credentials';
+
+type AtsContactField = 'name' | 'email' | 'phone' | 'linkedin' | 'github';
+
+type AtsRuleConfig = {
+  id: string;
+  check: AtsCheckId;
+  weight: number;
+  message: string;
+  field?: AtsContactField;
+  min?: number;
+};
+
+type AtsProfileId = string;
+
+type AtsProfile = {
+  id: AtsProfileId;
+  label: string;
+  description: string;
+  rules: AtsRuleConfig[];
+};
+
+type AtsRuleResult = {
+  id: string;
+  earned: number;
+  possible: number;
+  reason: string;
+};
+
 type AtsResult = {
   score: number;
+  profileId: AtsProfileId;
+  breakdown: AtsRuleResult[];
   suggestions: string[];
 };
 
@@ -188,16 +678,12 @@ const parseJson = <T,>(value: string | null): T | null => {
 const getInitialArtifacts = () => {
   const map: Record<number, StepArtifact | null> = {};
   for (const step of STEPS) {
-    map[step.number] = parseJson<StepArtifact>(localStorage.getItem(getArtifactKey(step.number)));
+    map[step.number] = readStored(getArtifactKey(step.number), STEP_ARTIFACT_SCHEMA);
   }
   return map;
 };
 
-const getStep7Checklist = (): boolean[] => {
-  const parsed = parseJson<boolean[]>(localStorage.getItem(STEP7_CHECKLIST_KEY));
-  if (!parsed || !Array.isArray(parsed)) return STEP7_CHECKLIST_ITEMS.map(() => false);
-  return STEP7_CHECKLIST_ITEMS.map((_, index) => Boolean(parsed[index]));
-};
+const getStep7Checklist = (): boolean[] => readStored(STEP7_CHECKLIST_KEY, STEP7_CHECKLIST_SCHEMA);
 
 const isStep7ChecklistComplete = () => getStep7Checklist().every(Boolean);
 
@@ -210,297 +696,4187 @@ const isValidUrl = (value: string) => {
   }
 };
 
-const getFirstIncompleteStep = (artifacts: Record<number, StepArtifact | null>) => {
-  const pending = STEPS.find((step) => !artifacts[step.number]?.uploadedAt);
-  if (!pending && !isStep7ChecklistComplete()) return 7;
-  return pending?.number ?? null;
-};
+type FieldFormat = 'email' | 'phone' | 'linkedin' | 'github' | 'url';
 
-const getProofLinks = (): ProofLinks => {
-  const finalSubmission = parseJson<ProofLinks>(localStorage.getItem(FINAL_SUBMISSION_KEY));
-  if (finalSubmission) return finalSubmission;
-  return (
-    parseJson<ProofLinks>(localStorage.getItem(PROOF_LINKS_KEY)) ?? {
-      lovable: '',
-      github: '',
-      deploy: '',
-    }
-  );
+type InvalidDraftField = {
+  field: 'email' | 'phone' | 'linkedin' | 'github' | 'liveUrl' | 'githubUrl';
+  label: string;
+  value: string;
+  message: string;
 };
 
-const hasAllValidProofLinks = (links: ProofLinks) =>
-  isValidUrl(links.lovable) && isValidUrl(links.github) && isValidUrl(links.deploy);
-
-const createEducationEntry = (): EducationEntry => ({ id: crypto.randomUUID(), school: '', degree: '', year: '' });
-const createExperienceEntry = (): ExperienceEntry => ({ id: crypto.randomUUID(), company: '', role: '', duration: '', bullet: '' });
-const createProjectEntry = (): ProjectEntry => ({
-  id: crypto.randomUUID(),
-  title: '',
-  description: '',
-  techStack: [],
-  liveUrl: '',
-  githubUrl: '',
-});
-
-const toSafeString = (value: unknown) => (typeof value === 'string' ? value : '');
-
-const readResumeDraft = (): ResumeDraft => {
-  const parsed = parseJson<unknown>(localStorage.getItem(RESUME_STORAGE_KEY));
-  if (!parsed || typeof parsed !== 'object') {
-    return {
-      name: '',
-      email: '',
-      phone: '',
-      location: '',
-      summary: '',
-      education: [createEducationEntry()],
-      experience: [createExperienceEntry()],
-      projects: [createProjectEntry()],
-      technicalSkills: [],
-      softSkills: [],
-      toolsTechnologies: [],
-      github: '',
-      linkedin: '',
-    };
-  }
-
-  const raw = parsed as Record<string, unknown>;
-  const education = Array.isArray(raw.education)
-    ? raw.education
-      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
-      .map((item) => ({
-        id: toSafeString(item.id) || crypto.randomUUID(),
-        school: toSafeString(item.school),
-        degree: toSafeString(item.degree),
-        year: toSafeString(item.year),
-      }))
-    : [];
-
-  const experience = Array.isArray(raw.experience)
-    ? raw.experience
-      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
-      .map((item) => ({
-        id: toSafeString(item.id) || crypto.randomUUID(),
-        company: toSafeString(item.company),
-        role: toSafeString(item.role),
-        duration: toSafeString(item.duration),
-        bullet: toSafeString(item.bullet),
-      }))
-    : [];
+const VALID_EMAIL_PATTERN = /^[^\s@]+@[^\s@.]+(?:\.[^\s@.]+)*\.[a-z]{2,}$/i;
+const VALID_PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const LINKEDIN_HOST_PATTERN = /(^|\.)linkedin\.com$/i;
+const LINKEDIN_PROFILE_PATH_PATTERN = /^\/in\/[\w%-]+\/?$/;
+const GITHUB_HOST_PATTERN = /^(www\.)?github\.com$/i;
+const GITHUB_OWNER_PATTERN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+const GITHUB_REPO_PATTERN = /^[\w.-]+$/;
 
-  const projects = Array.isArray(raw.projects)
-    ? raw.projects
-      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
-      .map((item) => ({
-        id: toSafeString(item.id) || crypto.randomUUID(),
-        title: toSafeString(item.title),
-        description: toSafeString(item.description),
-        techStack: Array.isArray(item.techStack)
-          ? item.techStack.map((tech) => toSafeString(tech)).filter(Boolean)
-          : [],
-        liveUrl: toSafeString(item.liveUrl),
-        githubUrl: toSafeString(item.githubUrl),
-      }))
-    : [];
+const isValidEmail = (value: string) => VALID_EMAIL_PATTERN.test(value);
 
-  const parseSkillArray = (value: unknown) =>
-    Array.isArray(value) ? value.map((item) => toSafeString(item).trim()).filter(Boolean) : [];
-  const technicalSkills = parseSkillArray(raw.technicalSkills);
-  const softSkills = parseSkillArray(raw.softSkills);
-  const toolsTechnologies = parseSkillArray(raw.toolsTechnologies);
+const isValidPhone = (value: string) => {
+  const digits = value.replace(/\D/g, '').length;
+  return VALID_PHONE_PATTERN.test(value) && digits >= 7 && digits <= 15;
+};
 
-  const legacySkills = toSafeString(raw.skills)
-    .split(',')
-    .map((item) => item.trim())
-    .filter(Boolean);
+const isValidLinkedInUrl = (value: string) => {
+  if (!isValidUrl(value)) return false;
+  const url = new URL(value);
+  return LINKEDIN_HOST_PATTERN.test(url.hostname) && LINKEDIN_PROFILE_PATH_PATTERN.test(url.pathname);
+};
 
-  return {
-    name: toSafeString(raw.name),
-    email: toSafeString(raw.email),
-    phone: toSafeString(raw.phone),
-    location: toSafeString(raw.location),
-    summary: toSafeString(raw.summary),
-    education: education.length ? education : [createEducationEntry()],
-    experience: experience.length ? experience : [createExperienceEntry()],
-    projects: projects.length ? projects : [createProjectEntry()],
-    technicalSkills: technicalSkills.length ? technicalSkills : legacySkills,
-    softSkills,
-    toolsTechnologies,
-    github: toSafeString(raw.github),
-    linkedin: toSafeString(raw.linkedin),
-  };
+const isValidGitHubUrl = (value: string) => {
+  if (!isValidUrl(value)) return false;
+  const url = new URL(value);
+  const [owner = '', repo, ...rest] = url.pathname.split('/').filter(Boolean);
+  return GITHUB_HOST_PATTERN.test(url.hostname) && GITHUB_OWNER_PATTERN.test(owner) && (!repo || GITHUB_REPO_PATTERN.test(repo)) && !rest.length;
 };
 
-const nonEmptyEducation = (draft: ResumeDraft) =>
-  draft.education.filter((entry) => entry.school.trim() || entry.degree.trim() || entry.year.trim());
+const FIELD_FORMATS: Record<FieldFormat, { isValid: (value: string) => boolean; message: string }> = {
+  email: { isValid: isValidEmail, message: 'Enter an email address like name@example.com.' },
+  phone: { isValid: isValidPhone, message: 'Enter a phone number with 7 to 15 digits, e.g. +44 20 7946 0958.' },
+  linkedin: { isValid: isValidLinkedInUrl, message: 'Enter a LinkedIn profile URL like https://www.linkedin.com/in/your-name.' },
+  github: { isValid: isValidGitHubUrl, message: 'Enter a GitHub profile or repository URL like https://github.com/user/repo.' },
+  url: { isValid: isValidUrl, message: 'Enter a full URL starting with https://.' },
+};
 
-const nonEmptyExperience = (draft: ResumeDraft) =>
-  draft.experience.filter((entry) => entry.company.trim() || entry.role.trim() || entry.duration.trim() || entry.bullet.trim());
+const getFieldError = (format: FieldFormat, value: string) => {
+  const trimmed = value.trim();
+  return trimmed && !FIELD_FORMATS[format].isValid(trimmed) ? FIELD_FORMATS[format].message : '';
+};
 
-const nonEmptyProjects = (draft: ResumeDraft) =>
-  draft.projects.filter(
-    (entry) =>
-      entry.title.trim() ||
-      entry.description.trim() ||
-      entry.techStack.length > 0 ||
-      entry.liveUrl.trim() ||
-      entry.githubUrl.trim(),
-  );
+const getFirstIncompleteStep = (artifacts: Record<number, StepArtifact | null>) => {
+  const pending = STEPS.find((step) => !artifacts[step.number]?.uploadedAt);
+  if (!pending && !isStep7ChecklistComplete()) return 7;
+  return pending?.number ?? null;
+};
 
-const skillItems = (draft: ResumeDraft) =>
-  [...draft.technicalSkills, ...draft.softSkills, ...draft.toolsTechnologies];
+const getProofLinks = (): ProofLinks =>
+  readStored(FINAL_SUBMISSION_KEY, PROOF_LINKS_SCHEMA) ??
+  readStored(PROOF_LINKS_KEY, PROOF_LINKS_SCHEMA) ?? {
+    lovable: '',
+    github: '',
+    deploy: '',
+  };
 
-const computeAtsResult = (draft: ResumeDraft): AtsResult => {
-  let score = 0;
-  const suggestions: string[] = [];
-  const summary = draft.summary.trim();
-  const summaryHasActionVerb = /\b(built|led|designed|improved|implemented|created|optimized|developed|automated)\b/i.test(summary);
-  const hasExperienceWithBullet = nonEmptyExperience(draft).some((entry) => entry.bullet.trim().length > 0);
-  const hasEducation = nonEmptyEducation(draft).length > 0;
-  const totalSkills = skillItems(draft).length;
-  const hasProject = nonEmptyProjects(draft).length > 0;
+const hasAllValidProofLinks = (links: ProofLinks) =>
+  isValidUrl(links.lovable) && isValidUrl(links.github) && isValidUrl(links.deploy);
 
-  if (draft.name.trim()) score += 10;
-  else suggestions.push('Add your full name (+10 points).');
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const CURRENT_DATE_PATTERN = /\b(present|current|now|ongoing|till date|to date)\b/i;
+const DATE_TOKEN_PATTERN = /\b((?:19|20)\d{2})-(\d{1,2})\b|\b(\d{1,2})\/((?:19|20)\d{2})\b|\b([a-z]{3,9})\.?\s+'?((?:19|20)\d{2})\b|\b((?:19|20)\d{2})\b/gi;
 
-  if (draft.email.trim()) score += 10;
-  else suggestions.push('Add an email address (+10 points).');
+const createResumeDate = (): ResumeDate => ({ month: null, year: null });
 
-  if (summary.length > 50) score += 10;
-  else suggestions.push('Add a professional summary (+10 points).');
+const createDateRange = (): DateRange => ({ start: createResumeDate(), end: createResumeDate(), current: false, raw: '' });
 
-  if (hasExperienceWithBullet) score += 15;
-  else suggestions.push('Add an experience entry with bullet impact (+15 points).');
+const toMonthNumber = (value: number | string) => {
+  const month = typeof value === 'number'
+    ? value
+    : MONTH_LABELS.findIndex((label) => value.toLowerCase().startsWith(label.toLowerCase())) + 1;
+  return Number.isInteger(month) && month >= 1 && month <= 12 ? month : null;
+};
 
-  if (hasEducation) score += 10;
-  else suggestions.push('Add at least one education entry (+10 points).');
+const parseDateTokens = (text: string) =>
+  [...text.matchAll(DATE_TOKEN_PATTERN)].map(([, isoYear, isoMonth, slashMonth, slashYear, monthName, namedYear, bareYear]): ResumeDate => {
+    if (isoYear) return { year: Number(isoYear), month: toMonthNumber(Number(isoMonth)) };
+    if (slashYear) return { year: Number(slashYear), month: toMonthNumber(Number(slashMonth)) };
+    if (namedYear) return { year: Number(namedYear), month: toMonthNumber(monthName) };
+    return { year: Number(bareYear), month: null };
+  });
+
+const parseDateRange = (text: string): DateRange => {
+  const value = text.trim();
+  if (!value) return createDateRange();
+  const current = CURRENT_DATE_PATTERN.test(value);
+  const [first, second] = parseDateTokens(value);
+  if (!first) return { ...createDateRange(), current, raw: current ? '' : value };
+  if (current) return { start: first, end: createResumeDate(), current, raw: '' };
+  return second
+    ? { start: first, end: second, current, raw: '' }
+    : { start: createResumeDate(), end: first, current, raw: '' };
+};
 
-  if (totalSkills >= 5) score += 10;
-  else suggestions.push('Add at least 5 skills (+10 points).');
+const hasResumeDate = (date: ResumeDate) => date.year !== null;
 
-  if (hasProject) score += 10;
-  else suggestions.push('Add at least one project (+10 points).');
+const hasDateRange = (range: DateRange) => hasResumeDate(range.start) || hasResumeDate(range.end) || range.current || Boolean(range.raw.trim());
 
-  if (draft.phone.trim()) score += 5;
-  else suggestions.push('Add your phone number (+5 points).');
+const formatResumeDate = (date: ResumeDate) => {
+  if (date.year === null) return '';
+  return date.month ? `${MONTH_LABELS[date.month - 1]} ${date.year}` : String(date.year);
+};
 
-  if (draft.linkedin.trim()) score += 5;
-  else suggestions.push('Add your LinkedIn URL (+5 points).');
+const formatDateRange = (range: DateRange) => {
+  const start = formatResumeDate(range.start);
+  const end = range.current ? 'Present' : formatResumeDate(range.end);
+  if (start && end) return start === end ? start : `${start} - ${end}`;
+  return start || end || range.raw.trim();
+};
 
-  if (draft.github.trim()) score += 5;
-  else suggestions.push('Add your GitHub URL (+5 points).');
+const toIsoResumeDate = (date: ResumeDate) =>
+  date.year === null ? '' : `${date.year}${date.month ? `-${String(date.month).padStart(2, '0')}` : ''}`;
 
-  if (summaryHasActionVerb) score += 10;
-  else suggestions.push('Use action verbs in summary (+10 points).');
+const toMonthIndex = (date: ResumeDate, edge: 'start' | 'end') =>
+  date.year === null ? null : date.year * 12 + (date.month ?? (edge === 'start' ? 1 : 12)) - 1;
 
-  return { score: Math.min(100, score), suggestions };
+const getCurrentMonthIndex = () => {
+  const now = new Date();
+  return now.getFullYear() * 12 + now.getMonth();
 };
 
-const readTemplateChoice = (): ResumeTemplate => {
-  const value = localStorage.getItem(TEMPLATE_STORAGE_KEY);
-  if (value === 'Classic' || value === 'Modern' || value === 'Minimal') return value;
-  return 'Classic';
-};
+const getDateRangeBounds = (range: DateRange) => ({
+  start: toMonthIndex(range.start, 'start'),
+  end: range.current ? getCurrentMonthIndex() : toMonthIndex(range.end, 'end'),
+});
 
-const readAccentChoice = (): AccentTheme => {
-  const value = localStorage.getItem(ACCENT_STORAGE_KEY) as AccentThemeId | null;
-  return ACCENT_THEMES.find((theme) => theme.id === value) ?? ACCENT_THEMES[0];
+const compareDescending = (a: number, b: number) => (a === b ? 0 : a > b ? -1 : 1);
+
+const sortByDateRange = <T extends { dates: DateRange }>(entries: T[]) =>
+  [...entries].sort((a, b) => {
+    const first = getDateRangeBounds(a.dates);
+    const second = getDateRangeBounds(b.dates);
+    const firstEnd = a.dates.current ? Infinity : first.end ?? first.start ?? -Infinity;
+    const secondEnd = b.dates.current ? Infinity : second.end ?? second.start ?? -Infinity;
+    return compareDescending(firstEnd, secondEnd) || compareDescending(first.start ?? -Infinity, second.start ?? -Infinity);
+  });
+
+const getDateRangeIssues = (range: DateRange, kind: 'education' | 'experience') => {
+  const issues: string[] = [];
+  const { start, end } = getDateRangeBounds(range);
+  const now = getCurrentMonthIndex();
+  if (range.raw.trim() && !hasResumeDate(range.start) && !hasResumeDate(range.end)) {
+    issues.push(`Could not read "${range.raw.trim()}" as a date. Pick a month and year.`);
+  }
+  if (hasResumeDate(range.start) && hasResumeDate(range.end) && !range.current && start !== null && end !== null && end < start) {
+    issues.push('End date is before the start date.');
+  }
+  const endMonth = range.current ? null : toMonthIndex(range.end, 'start');
+  if (kind === 'experience' && start !== null && start > now) issues.push('Start date is in the future.');
+  if (kind === 'experience' && endMonth !== null && endMonth > now) {
+    issues.push('End date is in the future. Mark the role as Present if you still work there.');
+  }
+  return issues;
 };
 
-const toTemplateClass = (template: ResumeTemplate) => `template-${template.toLowerCase()}`;
-
-const startsWithActionVerb = (text: string) => {
-  const cleaned = text.trim();
-  if (!cleaned) return true;
-  return ACTION_VERBS.some((verb) => new RegExp(`^${verb}\\b`, 'i').test(cleaned));
+const findDateOverlaps = <T extends { id: string; dates: DateRange }>(entries: T[], getLabel: (entry: T) => string) => {
+  const overlaps: Record<string, string[]> = {};
+  const getNarrowestBounds = (range: DateRange) => ({
+    start: toMonthIndex(range.start, 'end'),
+    end: range.current ? getCurrentMonthIndex() : toMonthIndex(range.end, 'start'),
+  });
+  entries.forEach((entry, index) => {
+    const { start: firstStart, end: firstEnd } = getNarrowestBounds(entry.dates);
+    if (firstStart === null || firstEnd === null) return;
+    entries.slice(index + 1).forEach((other) => {
+      const { start: secondStart, end: secondEnd } = getNarrowestBounds(other.dates);
+      if (secondStart === null || secondEnd === null) return;
+      if (firstStart < secondEnd && secondStart < firstEnd) {
+        overlaps[entry.id] = [...(overlaps[entry.id] ?? []), getLabel(other)];
+        overlaps[other.id] = [...(overlaps[other.id] ?? []), getLabel(entry)];
+      }
+    });
+  });
+  return overlaps;
 };
 
-const hasNumericIndicator = (text: string) => /(\d|%|x|k)/i.test(text);
-
-const getBulletGuidance = (text: string) => {
-  const guidance: string[] = [];
-  if (!text.trim()) return guidance;
-  if (!startsWithActionVerb(text)) guidance.push('Start with a strong action verb.');
-  if (!hasNumericIndicator(text)) guidance.push('Add measurable impact (numbers).');
-  return guidance;
+const normalizeResumeDate = (value: unknown): ResumeDate => {
+  if (!isRecord(value) || typeof value.year !== 'number' || !Number.isInteger(value.year)) return createResumeDate();
+  return { year: value.year, month: typeof value.month === 'number' ? toMonthNumber(value.month) : null };
 };
 
-const computeTopImprovements = (draft: ResumeDraft) => computeAtsResult(draft).suggestions.slice(0, 3);
+const normalizeDateRange = (value: unknown): DateRange => {
+  if (typeof value === 'string') return parseDateRange(value);
+  if (!isRecord(value)) return createDateRange();
+  return {
+    start: normalizeResumeDate(value.start),
+    end: normalizeResumeDate(value.end),
+    current: value.current === true,
+    raw: toSafeString(value.raw),
+  };
+};
 
-const shouldWarnIncomplete = (draft: ResumeDraft) => {
+const createCertificationEntry = (): CertificationEntry => ({ id: crypto.randomUUID(), name: '', issuer: '', date: createResumeDate(), credentialUrl: '' });
+const createAwardEntry = (): AwardEntry => ({ id: crypto.randomUUID(), title: '', issuer: '', date: createResumeDate(), description: '' });
+const createLanguageEntry = (): LanguageEntry => ({ id: crypto.randomUUID(), language: '', proficiency: '' });
+const createVolunteerEntry = (): VolunteerEntry => ({ id: crypto.randomUUID(), organization: '', role: '', dates: createDateRange(), description: '' });
+const createPublicationEntry = (): PublicationEntry => ({ id: crypto.randomUUID(), title: '', publisher: '', date: createResumeDate(), url: '' });
+const createCustomSectionItem = (): CustomSectionItem => ({ id: crypto.randomUUID(), title: '', subtitle: '', description: '' });
+const createCustomSection = (): CustomSection => ({ id: crypto.randomUUID(), title: '', items: [createCustomSectionItem()] });
+const createEducationEntry = (): EducationEntry => ({ id: crypto.randomUUID(), school: '', degree: '', dates: createDateRange() });
+const createExperienceBullet = (text = ''): ExperienceBullet => ({ id: crypto.randomUUID(), text });
+const createExperienceEntry = (): ExperienceEntry => ({
+  id: crypto.randomUUID(),
+  company: '',
+  role: '',
+  dates: createDateRange(),
+  bullets: [createExperienceBullet()],
+});
+const createProjectEntry = (): ProjectEntry => ({
+  id: crypto.randomUUID(),
+  title: '',
+  description: '',
+  techStack: [],
+  liveUrl: '',
+  githubUrl: '',
+  hidden: false,
+});
+
+const toSafeString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const isRecord = (value: unknown): value is Record<string, unknown> => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const toRecordArray = (value: unknown) => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+type StorageBackendName = 'localStorage' | 'indexedDB' | 'memory';
+
+type StorageBackend = {
+  name: StorageBackendName;
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  entries: () => Promise<Map<string, string>>;
+};
+
+const STORAGE_DB_NAME = 'resume-builder';
+const STORAGE_DB_STORE = 'keyval';
+const STORAGE_CHANNEL_NAME = 'resume-builder-storage';
+const STORAGE_MIGRATED_KEY = 'rb_storage_migrated_from_local';
+
+const isAppStorageKey = (key: string) => key.startsWith('rb_') || key.startsWith('resumeBuilder');
+
+const createMemoryStorageBackend = (initial: Record<string, string> = {}): StorageBackend => {
+  const items = new Map(Object.entries(initial));
+  return {
+    name: 'memory',
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+    entries: async () => new Map(items),
+  };
+};
+
+const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localStorage',
+  getItem: async (key) => localStorage.getItem(key),
+  setItem: async (key, value) => localStorage.setItem(key, value),
+  removeItem: async (key) => localStorage.removeItem(key),
+  entries: async () => {
+    const items = new Map<string, string>();
+    for (let index = 0; index < localStorage.length; index += 1) {
+      const key = localStorage.key(index);
+      const value = key === null ? null : localStorage.getItem(key);
+      if (key !== null && value !== null && isAppStorageKey(key)) items.set(key, value);
+    }
+    return items;
+  },
+});
+
+const toStoragePromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStorageBackend = (databaseName = STORAGE_DB_NAME): StorageBackend => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORAGE_DB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const write = async (run: (store: IDBObjectStore) => IDBRequest) => {
+    const transaction = (await openDatabase()).transaction(STORAGE_DB_STORE, 'readwrite');
+    run(transaction.objectStore(STORAGE_DB_STORE));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    name: 'indexedDB',
+    getItem: async (key) => {
+      const store = (await openDatabase()).transaction(STORAGE_DB_STORE).objectStore(STORAGE_DB_STORE);
+      const value = await toStoragePromise(store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: (key, value) => write((store) => store.put(value, key)),
+    removeItem: (key) => write((store) => store.delete(key)),
+    entries: async () => {
+      const store = (await openDatabase()).transaction(STORAGE_DB_STORE).objectStore(STORAGE_DB_STORE);
+      const [keys, values] = await Promise.all([toStoragePromise(store.getAllKeys()), toStoragePromise(store.getAll())]);
+      const items = new Map<string, string>();
+      keys.forEach((key, index) => {
+        if (typeof key === 'string' && typeof values[index] === 'string') items.set(key, values[index]);
+      });
+      return items;
+    },
+  };
+};
+
+let storageBackend: StorageBackend = createMemoryStorageBackend();
+let storageCache = new Map<string, string>();
+let storageChannel: BroadcastChannel | null = null;
+let storageHydration: Promise<StorageBackendName> | null = null;
+const storageChangeListeners = new Set<(key: string) => void>();
+
+const notifyStorageChange = (key: string) => storageChangeListeners.forEach((listener) => listener(key));
+
+const subscribeAppStorage = (listener: (key: string) => void) => {
+  storageChangeListeners.add(listener);
+  return () => {
+    storageChangeListeners.delete(listener);
+  };
+};
+
+const persistStorageChange = (key: string, value: string | null) => {
+  const pending = value === null ? storageBackend.removeItem(key) : storageBackend.setItem(key, value);
+  pending.catch((error: unknown) => reportStorageWriteFailure(key, error));
+  storageChannel?.postMessage({ key, value });
+};
+
+const appStorage = {
+  getItem: (key: string) => storageCache.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    if (storageCache.get(key) === value) return;
+    storageCache.set(key, value);
+    persistStorageChange(key, value);
+  },
+  removeItem: (key: string) => {
+    if (!storageCache.delete(key)) return;
+    persistStorageChange(key, null);
+  },
+};
+
+const migrateLocalStorageInto = async (backend: StorageBackend, items: Map<string, string>) => {
+  if (items.has(STORAGE_MIGRATED_KEY)) return items;
+  const legacyItems = await createLocalStorageBackend().entries();
+  for (const [key, value] of legacyItems) {
+    if (!items.has(key)) await backend.setItem(key, value);
+  }
+  await backend.setItem(STORAGE_MIGRATED_KEY, new Date().toISOString());
+  legacyItems.forEach((_, key) => localStorage.removeItem(key));
+  return backend.entries();
+};
+
+const hydrateAppStorage = async (backend: StorageBackend) => {
+  let items = await backend.entries();
+  if (backend.name === 'indexedDB') items = await migrateLocalStorageInto(backend, items);
+  storageBackend = backend;
+  storageCache = items;
+  if (!storageChannel && typeof BroadcastChannel !== 'undefined') {
+    storageChannel = new BroadcastChannel(STORAGE_CHANNEL_NAME);
+    storageChannel.onmessage = (event: MessageEvent<{ key: string; value: string | null }>) => {
+      const { key, value } = event.data;
+      if (value === null) storageCache.delete(key);
+      else storageCache.set(key, value);
+      notifyStorageChange(key);
+    };
+  }
+  return backend.name;
+};
+
+const fallBackTo = (failed: StorageBackendName, createBackend: () => StorageBackend) => (error: unknown) => {
+  const backend = createBackend();
+  reportStorageUnavailable(failed, backend.name, error);
+  return hydrateAppStorage(backend);
+};
+
+const initAppStorage = () => {
+  storageHydration ??= (typeof indexedDB === 'undefined'
+    ? hydrateAppStorage(createLocalStorageBackend())
+    : hydrateAppStorage(createIndexedDbStorageBackend()).catch(fallBackTo('indexedDB', createLocalStorageBackend))
+  ).catch(fallBackTo('localStorage', createMemoryStorageBackend));
+  return storageHydration;
+};
+
+type StoredEnvelope = {
+  version: number;
+  data: unknown;
+};
+
+type StorageMigration = {
+  to: number;
+  description: string;
+  migrate: (data: unknown) => unknown;
+};
+
+type StorageSchema<T> = {
+  version: number;
+  migrations: StorageMigration[];
+  normalize: (data: unknown) => T;
+  fallback: () => T;
+  legacy?: () => unknown;
+};
+
+type StorageIssueKind = 'corrupt' | 'unknown-version' | 'migration-failed' | 'invalid' | 'write-failed' | 'unavailable';
+
+type StorageIssue = {
+  key: string;
+  kind: StorageIssueKind;
+  message: string;
+  backupKey: string;
+};
+
+const STORAGE_BACKUP_SUFFIX = '__backup';
+
+let storageIssues: StorageIssue[] = [];
+const dismissedStorageIssues = new Set<string>();
+// Keys whose saved data could not be read keep this session's writes in memory so the original is never overwritten.
+const heldStorageValues = new Map<string, string | null>();
+const storageIssueListeners = new Set<() => void>();
+
+const getStorageIssueId = (issue: Pick<StorageIssue, 'key' | 'kind'>) => `${issue.key}:${issue.kind}`;
+
+const subscribeStorageIssues = (listener: () => void) => {
+  storageIssueListeners.add(listener);
+  return () => {
+    storageIssueListeners.delete(listener);
+  };
+};
+
+const getStorageIssues = () => storageIssues;
+
+const setStorageIssues = (next: StorageIssue[]) => {
+  storageIssues = next;
+  queueMicrotask(() => storageIssueListeners.forEach((listener) => listener()));
+};
+
+const reportStorageIssue = (key: string, raw: string, kind: StorageIssueKind, message: string) => {
+  const id = getStorageIssueId({ key, kind });
+  if (dismissedStorageIssues.has(id) || storageIssues.some((issue) => getStorageIssueId(issue) === id)) return;
+  const backupKey = `${key}${STORAGE_BACKUP_SUFFIX}`;
+  appStorage.setItem(backupKey, raw);
+  if (!heldStorageValues.has(key)) heldStorageValues.set(key, null);
+  setStorageIssues([...storageIssues, { key, kind, message, backupKey }]);
+};
+
+const addStorageIssue = (issue: StorageIssue) => {
+  const id = getStorageIssueId(issue);
+  if (dismissedStorageIssues.has(id) || storageIssues.some((item) => getStorageIssueId(item) === id)) return;
+  setStorageIssues([...storageIssues, issue]);
+};
+
+const describeStorageError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const reportStorageWriteFailure = (key: string, error: unknown) => {
+  addStorageIssue({
+    key,
+    kind: 'write-failed',
+    message: `Saving to ${storageBackend.name} failed (${describeStorageError(error)}). Changes are kept for this session only.`,
+    backupKey: key,
+  });
+};
+
+const reportStorageUnavailable = (failed: StorageBackendName, fallback: StorageBackendName, error: unknown) => {
+  addStorageIssue({
+    key: failed,
+    kind: 'unavailable',
+    message:
+      fallback === 'memory'
+        ? `Browser storage could not be opened (${describeStorageError(error)}). Changes are kept for this session only.`
+        : `${failed} could not be opened (${describeStorageError(error)}). Your data is saved to ${fallback} instead.`,
+    backupKey: failed,
+  });
+};
+
+const dismissStorageIssue = (issue: StorageIssue) => {
+  dismissedStorageIssues.add(getStorageIssueId(issue));
+  setStorageIssues(storageIssues.filter((item) => item !== issue));
+};
+
+const releaseStorageKey = (issue: StorageIssue) => {
+  const value = heldStorageValues.get(issue.key);
+  heldStorageValues.delete(issue.key);
+  if (value) appStorage.setItem(issue.key, value);
+  dismissStorageIssue(issue);
+};
+
+const isStoredEnvelope = (value: unknown): value is StoredEnvelope =>
+  isRecord(value) && Number.isInteger(value.version) && 'data' in value;
+
+const writeStored = <T,>(key: string, schema: StorageSchema<T>, value: T) => {
+  const envelope: StoredEnvelope = { version: schema.version, data: value };
+  if (heldStorageValues.has(key)) heldStorageValues.set(key, JSON.stringify(envelope));
+  else appStorage.setItem(key, JSON.stringify(envelope));
+};
+
+const readStored = <T,>(key: string, schema: StorageSchema<T>): T => {
+  let raw = heldStorageValues.get(key) ?? appStorage.getItem(key);
+  let version = 0;
+  let data: unknown;
+  if (raw === null) {
+    data = schema.legacy?.();
+    if (data === undefined) return schema.fallback();
+    raw = JSON.stringify(data);
+  } else {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      reportStorageIssue(key, raw, 'corrupt', 'The saved data is not valid JSON.');
+      return schema.fallback();
+    }
+    if (isStoredEnvelope(data)) {
+      version = data.version;
+      data = data.data;
+    }
+  }
+
+  if (version > schema.version) {
+    reportStorageIssue(
+      key,
+      raw,
+      'unknown-version',
+      `The saved data uses schema version ${version}, but this app only understands up to version ${schema.version}.`,
+    );
+    return schema.fallback();
+  }
+
+  for (const migration of schema.migrations) {
+    if (migration.to <= version) continue;
+    try {
+      data = migration.migrate(data);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      reportStorageIssue(key, raw, 'migration-failed', `Migration to version ${migration.to} (${migration.description}) failed: ${reason}`);
+      return schema.fallback();
+    }
+  }
+
+  let value: T;
+  try {
+    value = schema.normalize(data);
+  } catch (error) {
+    reportStorageIssue(key, raw, 'invalid', error instanceof Error ? error.message : String(error));
+    return schema.fallback();
+  }
+  if (version < schema.version && value !== null) writeStored(key, schema, value);
+  return value;
+};
+
+const createEnvelopeMigration = (label: string): StorageMigration => ({
+  to: 1,
+  description: `wrap unversioned ${label} in a storage envelope`,
+  migrate: (data) => data,
+});
+
+const STEP_ARTIFACT_SCHEMA: StorageSchema<StepArtifact | null> = {
+  version: 1,
+  migrations: [createEnvelopeMigration('step artifact')],
+  normalize: (data) => {
+    if (data === null) return null;
+    if (!isRecord(data)) throw new Error('Expected a step artifact object.');
+    return {
+      notes: toSafeString(data.notes),
+      status: data.status === 'worked' || data.status === 'error' ? data.status : '',
+      screenshotName: toSafeString(data.screenshotName),
+      uploadedAt: toSafeString(data.uploadedAt),
+    };
+  },
+  fallback: () => null,
+};
+
+const PROOF_LINKS_SCHEMA: StorageSchema<ProofLinks | null> = {
+  version: 1,
+  migrations: [createEnvelopeMigration('proof links')],
+  normalize: (data) => {
+    if (data === null) return null;
+    if (!isRecord(data)) throw new Error('Expected an object with lovable, github and deploy links.');
+    return { lovable: toSafeString(data.lovable), github: toSafeString(data.github), deploy: toSafeString(data.deploy) };
+  },
+  fallback: () => null,
+};
+
+const STEP7_CHECKLIST_SCHEMA: StorageSchema<boolean[]> = {
+  version: 1,
+  migrations: [createEnvelopeMigration('checklist')],
+  normalize: (data) => {
+    if (!Array.isArray(data)) throw new Error('Expected a list of checklist flags.');
+    return STEP7_CHECKLIST_ITEMS.map((_, index) => Boolean(data[index]));
+  },
+  fallback: () => STEP7_CHECKLIST_ITEMS.map(() => false),
+};
+
+const createEmptyResumeDraft = (): ResumeDraft => ({
+  name: '',
+  email: '',
+  phone: '',
+  location: '',
+  summary: '',
+  education: [createEducationEntry()],
+  experience: [createExperienceEntry()],
+  projects: [createProjectEntry()],
+  technicalSkills: [],
+  softSkills: [],
+  toolsTechnologies: [],
+  certifications: [],
+  awards: [],
+  languages: [],
+  volunteering: [],
+  publications: [],
+  customSections: [],
+  github: '',
+  linkedin: '',
+});
+
+const toLanguageProficiency = (value: unknown): LanguageProficiency | '' =>
+  LANGUAGE_PROFICIENCIES.find((level) => toSafeString(value).toLowerCase().includes(level.toLowerCase())) ?? '';
+
+const normalizeExperienceBullet = (value: unknown): ExperienceBullet =>
+  isRecord(value) ? { id: toSafeString(value.id) || crypto.randomUUID(), text: toSafeString(value.text) } : createExperienceBullet(toSafeString(value));
+
+const normalizeResumeDraft = (parsed: unknown): ResumeDraft => {
+  if (!parsed || typeof parsed !== 'object') return createEmptyResumeDraft();
+
+  const raw = parsed as Record<string, unknown>;
+  const education = Array.isArray(raw.education)
+    ? raw.education
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+      .map((item) => ({
+        id: toSafeString(item.id) || crypto.randomUUID(),
+        school: toSafeString(item.school),
+        degree: toSafeString(item.degree),
+        dates: normalizeDateRange(item.dates),
+      }))
+    : [];
+
+  const experience = Array.isArray(raw.experience)
+    ? raw.experience
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+      .map((item) => ({
+        id: toSafeString(item.id) || crypto.randomUUID(),
+        company: toSafeString(item.company),
+        role: toSafeString(item.role),
+        dates: normalizeDateRange(item.dates),
+        bullets: Array.isArray(item.bullets) && item.bullets.length ? item.bullets.map(normalizeExperienceBullet) : [createExperienceBullet()],
+      }))
+    : [];
+
+  const projects = Array.isArray(raw.projects)
+    ? raw.projects
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+      .map((item) => ({
+        id: toSafeString(item.id) || crypto.randomUUID(),
+        title: toSafeString(item.title),
+        description: toSafeString(item.description),
+        techStack: Array.isArray(item.techStack)
+          ? item.techStack.map((tech) => toSafeString(tech)).filter(Boolean)
+          : [],
+        liveUrl: toSafeString(item.liveUrl),
+        githubUrl: toSafeString(item.githubUrl),
+        hidden: item.hidden === true,
+      }))
+    : [];
+
+  const parseSkillArray = (value: unknown) =>
+    Array.isArray(value) ? value.map((item) => toSafeString(item).trim()).filter(Boolean) : [];
+  const technicalSkills = parseSkillArray(raw.technicalSkills);
+  const softSkills = parseSkillArray(raw.softSkills);
+  const toolsTechnologies = parseSkillArray(raw.toolsTechnologies);
+
+  return {
+    name: toSafeString(raw.name),
+    email: toSafeString(raw.email),
+    phone: toSafeString(raw.phone),
+    location: toSafeString(raw.location),
+    summary: toSafeString(raw.summary),
+    education: education.length ? education : [createEducationEntry()],
+    experience: experience.length ? experience : [createExperienceEntry()],
+    projects: projects.length ? projects : [createProjectEntry()],
+    technicalSkills,
+    softSkills,
+    toolsTechnologies,
+    certifications: toRecordArray(raw.certifications).map((item) => ({
+      id: toSafeString(item.id) || crypto.randomUUID(),
+      name: toSafeString(item.name),
+      issuer: toSafeString(item.issuer),
+      date: normalizeResumeDate(item.date),
+      credentialUrl: toSafeString(item.credentialUrl),
+    })),
+    awards: toRecordArray(raw.awards).map((item) => ({
+      id: toSafeString(item.id) || crypto.randomUUID(),
+      title: toSafeString(item.title),
+      issuer: toSafeString(item.issuer),
+      date: normalizeResumeDate(item.date),
+      description: toSafeString(item.description),
+    })),
+    languages: toRecordArray(raw.languages).map((item) => ({
+      id: toSafeString(item.id) || crypto.randomUUID(),
+      language: toSafeString(item.language),
+      proficiency: toLanguageProficiency(item.proficiency),
+    })),
+    volunteering: toRecordArray(raw.volunteering).map((item) => ({
+      id: toSafeString(item.id) || crypto.randomUUID(),
+      organization: toSafeString(item.organization),
+      role: toSafeString(item.role),
+      dates: normalizeDateRange(item.dates),
+      description: toSafeString(item.description),
+    })),
+    publications: toRecordArray(raw.publications).map((item) => ({
+      id: toSafeString(item.id) || crypto.randomUUID(),
+      title: toSafeString(item.title),
+      publisher: toSafeString(item.publisher),
+      date: normalizeResumeDate(item.date),
+      url: toSafeString(item.url),
+    })),
+    customSections: toRecordArray(raw.customSections).map((section) => ({
+      id: toSafeString(section.id) || crypto.randomUUID(),
+      title: toSafeString(section.title),
+      items: toRecordArray(section.items).map((item) => ({
+        id: toSafeString(item.id) || crypto.randomUUID(),
+        title: toSafeString(item.title),
+        subtitle: toSafeString(item.subtitle),
+        description: toSafeString(item.description),
+      })),
+    })),
+    github: toSafeString(raw.github),
+    linkedin: toSafeString(raw.linkedin),
+  };
+};
+
+const getResumeTemplate = (template: ResumeTemplate) =>
+  RESUME_TEMPLATES.find((definition) => definition.id === template) ?? RESUME_TEMPLATES[0];
+
+const toTemplateChoice = (value: unknown): ResumeTemplate =>
+  RESUME_TEMPLATES.find((definition) => definition.id === value)?.id ?? 'Classic';
+
+const toAccentChoice = (value: unknown): AccentTheme =>
+  ACCENT_THEMES.find((theme) => theme.id === value) ?? ACCENT_THEMES[0];
+
+const toAccentColor = (value: unknown, legacyThemeId?: unknown) => {
+  const color = toSafeString(value).trim();
+  return isCssColor(color) ? color : toAccentChoice(legacyThemeId).color;
+};
+
+const toFontPairingChoice = (value: unknown) => FONT_PAIRINGS.find((pairing) => pairing.id === value) ?? FONT_PAIRINGS[0];
+
+const toLineSpacingChoice = (value: unknown) => LINE_SPACINGS.find((spacing) => spacing.id === value) ?? LINE_SPACINGS[1];
+
+const toMarginDensityChoice = (value: unknown) => MARGIN_DENSITIES.find((density) => density.id === value) ?? MARGIN_DENSITIES[1];
+
+const toPageSizeChoice = (value: unknown) => PAGE_SIZES.find((size) => size.id === value) ?? PAGE_SIZES[0];
+
+const normalizeTypography = (value: unknown): ResumeTypography => {
+  if (!isRecord(value)) return { ...DEFAULT_TYPOGRAPHY };
+  const fontSize = Number(value.fontSize);
+  return {
+    fontPairingId: toFontPairingChoice(value.fontPairingId).id,
+    fontSize: FONT_SIZE_OPTIONS.includes(fontSize) ? fontSize : null,
+    lineSpacing: toLineSpacingChoice(value.lineSpacing).id,
+    marginDensity: toMarginDensityChoice(value.marginDensity).id,
+  };
+};
+
+const resolveResumeTemplate = (template: ResumeTemplate, typography: ResumeTypography = DEFAULT_TYPOGRAPHY): ResumeTemplateDefinition => {
+  const definition = getResumeTemplate(template);
+  const { print } = definition;
+  const pairing = toFontPairingChoice(typography.fontPairingId);
+  const scale = typography.fontSize ? typography.fontSize / print.fontSize : 1;
+  const spacing = toLineSpacingChoice(typography.lineSpacing).factor;
+  const toHalfPoints = (value: number) => Math.round(value * 2) / 2;
+  return {
+    ...definition,
+    print: {
+      ...print,
+      fontFamily: pairing.body ?? print.fontFamily,
+      headingFontFamily: pairing.heading ?? print.headingFontFamily,
+      fontSize: typography.fontSize ?? print.fontSize,
+      headingSize: toHalfPoints(print.headingSize * scale),
+      nameSize: toHalfPoints(print.nameSize * scale),
+      lineHeight: Number((print.lineHeight * spacing).toFixed(2)),
+      margin: Math.round(print.margin * toMarginDensityChoice(typography.marginDensity).factor),
+      sectionGap: Math.round(print.sectionGap * spacing),
+      entryGap: Math.round(print.entryGap * spacing),
+    },
+  };
+};
+
+const getTemplateSectionOrder = (template: ResumeTemplate): ResumeSectionId[] => {
+  const leading = getResumeTemplate(template).sectionOrder ?? [];
+  return [...leading, ...RESUME_SECTIONS.map((section) => section.id).filter((id) => !leading.includes(id))];
+};
+
+const createSectionLayout = (template: ResumeTemplate = 'Classic'): ResumeSectionLayout => ({ order: getTemplateSectionOrder(template), hidden: [] });
+
+// Follows the new template's default order unless the user has already rearranged the sections.
+const withTemplateSectionOrder = (layout: ResumeSectionLayout, from: ResumeTemplate, to: ResumeTemplate): ResumeSectionLayout =>
+  layout.order.join() === getTemplateSectionOrder(from).join() ? { ...layout, order: getTemplateSectionOrder(to) } : layout;
+
+const isResumeSectionId = (value: unknown): value is ResumeSectionId => RESUME_SECTIONS.some((section) => section.id === value);
+
+const normalizeSectionLayout = (value: unknown): ResumeSectionLayout => {
+  if (!isRecord(value)) return createSectionLayout();
+  const order = Array.isArray(value.order) ? [...new Set(value.order.filter(isResumeSectionId))] : [];
+  const hidden = Array.isArray(value.hidden) ? [...new Set(value.hidden.filter(isResumeSectionId))] : [];
+  return {
+    order: [...order, ...RESUME_SECTIONS.map((section) => section.id).filter((id) => !order.includes(id))],
+    hidden,
+  };
+};
+
+const getVisibleSections = (layout: ResumeSectionLayout) => layout.order.filter((id) => !layout.hidden.includes(id));
+
+const getTemplateSections = (layout: ResumeSectionLayout, definition: ResumeTemplateDefinition) => {
+  const sidebarSections = definition.regions.sidebar?.sections ?? [];
+  const visible = getVisibleSections(layout);
+  return {
+    sidebar: visible.filter((id) => sidebarSections.includes(id)),
+    main: visible.filter((id) => !sidebarSections.includes(id)),
+  };
+};
+
+const createResumeRecord = (
+  name: string,
+  draft: ResumeDraft = createEmptyResumeDraft(),
+  template: ResumeTemplate = 'Classic',
+  accentColor = ACCENT_THEMES[0].color,
+  typography: ResumeTypography = DEFAULT_TYPOGRAPHY,
+): ResumeRecord => ({
+  id: crypto.randomUUID(),
+  name,
+  template,
+  accentColor,
+  typography: { ...typography },
+  pageSize: 'a4',
+  fitToOnePage: false,
+  sectionLayout: createSectionLayout(template),
+  atsProfileId: 'standard',
+  draft,
+  jobDescription: '',
+  coverLetter: createCoverLetter(),
+  coverLetterPageSize: 'a4',
+  variant: null,
+  updatedAt: new Date().toISOString(),
+});
+
+const normalizeResumeRecord = (item: Record<string, unknown>): ResumeRecord => ({
+  id: toSafeString(item.id) || crypto.randomUUID(),
+  name: toSafeString(item.name).trim() || 'Untitled Resume',
+  template: toTemplateChoice(item.template),
+  accentColor: toAccentColor(item.accentColor, item.accentThemeId),
+  typography: normalizeTypography(item.typography),
+  pageSize: toPageSizeChoice(item.pageSize).id,
+  fitToOnePage: item.fitToOnePage === true,
+  sectionLayout: normalizeSectionLayout(item.sectionLayout),
+  atsProfileId: toAtsProfileChoice(item.atsProfileId).id,
+  draft: normalizeResumeDraft(item.draft),
+  jobDescription: toSafeString(item.jobDescription),
+  coverLetter: normalizeCoverLetter(item.coverLetter),
+  // Letters saved before they had their own size keep printing at the resume's size.
+  coverLetterPageSize: toPageSizeChoice(item.coverLetterPageSize ?? item.pageSize).id,
+  variant:
+    isRecord(item.variant) && toSafeString(item.variant.baseId)
+      ? { baseId: toSafeString(item.variant.baseId), snapshot: normalizeResumeDraft(item.variant.snapshot) }
+      : null,
+  updatedAt: toSafeString(item.updatedAt),
+});
+
+const mapStoredResumeDrafts = (data: unknown, migrate: (draft: Record<string, unknown>) => Record<string, unknown>) =>
+  isRecord(data)
+    ? {
+      ...data,
+      resumes: toRecordArray(data.resumes).map((resume) =>
+        isRecord(resume.draft) ? { ...resume, draft: migrate(resume.draft) } : resume),
+    }
+    : data;
+
+const RESUME_LIBRARY_SCHEMA: StorageSchema<ResumeLibrary | null> = {
+  version: 4,
+  migrations: [
+    createEnvelopeMigration('resume library'),
+    {
+      to: 2,
+      description: 'move the legacy comma-separated skills string into technical skills',
+      migrate: (data) =>
+        mapStoredResumeDrafts(data, ({ skills, ...draft }) => {
+          const legacySkills = toSafeString(skills)
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean);
+          const hasTechnicalSkills = Array.isArray(draft.technicalSkills) && draft.technicalSkills.length > 0;
+          return hasTechnicalSkills || !legacySkills.length ? draft : { ...draft, technicalSkills: legacySkills };
+        }),
+    },
+    {
+      to: 3,
+      description: 'turn the single experience bullet into a list of bullets',
+      migrate: (data) =>
+        mapStoredResumeDrafts(data, (draft) => ({
+          ...draft,
+          experience: toRecordArray(draft.experience).map(({ bullet, ...entry }) => ({
+            ...entry,
+            bullets: Array.isArray(entry.bullets) ? entry.bullets : [createExperienceBullet(toSafeString(bullet))],
+          })),
+        })),
+    },
+    {
+      to: 4,
+      description: 'parse free-text education years and experience durations into date ranges',
+      migrate: (data) =>
+        mapStoredResumeDrafts(data, (draft) => ({
+          ...draft,
+          education: toRecordArray(draft.education).map(({ year, ...entry }) => ({
+            ...entry,
+            dates: entry.dates ?? parseDateRange(toSafeString(year)),
+          })),
+          experience: toRecordArray(draft.experience).map(({ duration, ...entry }) => ({
+            ...entry,
+            dates: entry.dates ?? parseDateRange(toSafeString(duration)),
+          })),
+        })),
+    },
+  ],
+  legacy: () => {
+    const draft = parseJson<unknown>(appStorage.getItem(RESUME_STORAGE_KEY));
+    const template = appStorage.getItem(TEMPLATE_STORAGE_KEY);
+    const accentThemeId = appStorage.getItem(ACCENT_STORAGE_KEY);
+    if (draft === null && template === null && accentThemeId === null) return undefined;
+    return { resumes: [{ name: 'My Resume', draft, template, accentThemeId }] };
+  },
+  normalize: (data) => {
+    if (!isRecord(data)) throw new Error('Expected a resume library object.');
+    const resumes = toRecordArray(data.resumes).map(normalizeResumeRecord);
+    if (!resumes.length) return null;
+    const activeId = toSafeString(data.activeId);
+    return { activeId: resumes.some((resume) => resume.id === activeId) ? activeId : resumes[0].id, resumes };
+  },
+  fallback: () => null,
+};
+
+const writeResumeLibrary = (library: ResumeLibrary) => {
+  writeStored(RESUME_LIBRARY_KEY, RESUME_LIBRARY_SCHEMA, library);
+};
+
+const readResumeLibrary = (): ResumeLibrary => {
+  const stored = readStored(RESUME_LIBRARY_KEY, RESUME_LIBRARY_SCHEMA);
+  if (stored) return stored;
+  const record = createResumeRecord('My Resume');
+  const library = { activeId: record.id, resumes: [record] };
+  writeResumeLibrary(library);
+  return library;
+};
+
+const readResumeRecord = (id: string) => readResumeLibrary().resumes.find((resume) => resume.id === id) ?? null;
+
+const updateResumeRecord = (id: string, patch: Partial<Omit<ResumeRecord, 'id' | 'updatedAt'>>) => {
+  const library = readResumeLibrary();
+  writeResumeLibrary({
+    ...library,
+    resumes: library.resumes.map((resume) => {
+      if (resume.id !== id) return resume;
+      const next = { ...resume, ...patch };
+      return JSON.stringify(next) === JSON.stringify(resume) ? resume : { ...next, updatedAt: new Date().toISOString() };
+    }),
+  });
+};
+
+const setActiveResume = (id: string) => {
+  const library = readResumeLibrary();
+  if (library.activeId !== id && library.resumes.some((resume) => resume.id === id)) {
+    writeResumeLibrary({ ...library, activeId: id });
+  }
+};
+
+const APPLICATION_STATUSES: { id: ApplicationStatus; label: string }[] = [
+  { id: 'saved', label: 'Saved' },
+  { id: 'applied', label: 'Applied' },
+  { id: 'interview', label: 'Interview' },
+  { id: 'offer', label: 'Offer' },
+  { id: 'rejected', label: 'Rejected' },
+];
+
+const CLOSED_APPLICATION_STATUSES: ApplicationStatus[] = ['offer', 'rejected'];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toApplicationStatus = (value: unknown): ApplicationStatus =>
+  APPLICATION_STATUSES.find((status) => status.id === value)?.id ?? 'saved';
+
+const toIsoDate = (value: unknown) => {
+  const text = toSafeString(value);
+  return ISO_DATE_PATTERN.test(text) ? text : '';
+};
+
+const getTodayIsoDate = () => {
+  const now = new Date();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()].map((part) => String(part).padStart(2, '0')).join('-');
+};
+
+const formatIsoDate = (value: string) =>
+  value ? new Date(`${value}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '';
+
+const createJobApplication = (resume: ResumeSnapshot | null = null): JobApplication => ({
+  id: crypto.randomUUID(),
+  company: '',
+  role: '',
+  jobDescription: '',
+  status: 'saved',
+  appliedOn: '',
+  followUpOn: '',
+  notes: '',
+  resume,
+  updatedAt: new Date().toISOString(),
+});
+
+const takeResumeSnapshot = (record: ResumeRecord): ResumeSnapshot => ({
+  resumeId: record.id,
+  resumeName: record.name,
+  template: record.template,
+  accentColor: record.accentColor,
+  typography: { ...record.typography },
+  sectionLayout: structuredClone(record.sectionLayout),
+  atsProfileId: record.atsProfileId,
+  draft: structuredClone(record.draft),
+  takenAt: new Date().toISOString(),
+});
+
+const normalizeResumeSnapshot = (value: unknown): ResumeSnapshot | null => {
+  if (!isRecord(value) || !isRecord(value.draft)) return null;
+  return {
+    resumeId: toSafeString(value.resumeId),
+    resumeName: toSafeString(value.resumeName).trim() || 'Untitled Resume',
+    template: toTemplateChoice(value.template),
+    accentColor: toAccentColor(value.accentColor, value.accentThemeId),
+    typography: normalizeTypography(value.typography),
+    sectionLayout: normalizeSectionLayout(value.sectionLayout),
+    atsProfileId: toAtsProfileChoice(value.atsProfileId).id,
+    draft: normalizeResumeDraft(value.draft),
+    takenAt: toSafeString(value.takenAt),
+  };
+};
+
+const normalizeJobApplication = (item: Record<string, unknown>): JobApplication => ({
+  id: toSafeString(item.id) || crypto.randomUUID(),
+  company: toSafeString(item.company),
+  role: toSafeString(item.role),
+  jobDescription: toSafeString(item.jobDescription),
+  status: toApplicationStatus(item.status),
+  appliedOn: toIsoDate(item.appliedOn),
+  followUpOn: toIsoDate(item.followUpOn),
+  notes: toSafeString(item.notes),
+  resume: normalizeResumeSnapshot(item.resume),
+  updatedAt: toSafeString(item.updatedAt),
+});
+
+const APPLICATIONS_SCHEMA: StorageSchema<JobApplication[]> = {
+  version: 1,
+  migrations: [createEnvelopeMigration('job applications')],
+  normalize: (data) => {
+    if (!Array.isArray(data)) throw new Error('Expected a list of job applications.');
+    return toRecordArray(data).map(normalizeJobApplication);
+  },
+  fallback: () => [],
+};
+
+const readApplications = () => readStored(APPLICATIONS_KEY, APPLICATIONS_SCHEMA);
+
+const writeApplications = (applications: JobApplication[]) => writeStored(APPLICATIONS_KEY, APPLICATIONS_SCHEMA, applications);
+
+const isFollowUpDue = (application: JobApplication, today = getTodayIsoDate()) =>
+  Boolean(application.followUpOn) && application.followUpOn <= today && !CLOSED_APPLICATION_STATUSES.includes(application.status);
+
+type DraftEntrySection = 'education' | 'experience' | 'projects' | DraftListSection;
+
+type DraftEntry = { id: string; hidden?: boolean };
+
+type DraftUnit = {
+  key: string;
+  label: string;
+  value: unknown;
+  text: string;
+};
+
+type DraftUnitChange = {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+  status: 'added' | 'removed' | 'changed';
+  conflict: boolean;
+};
+
+const DRAFT_TEXT_FIELDS: { field: 'name' | 'email' | 'phone' | 'location' | 'summary' | 'github' | 'linkedin'; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'location', label: 'Location' },
+  { field: 'summary', label: 'Summary' },
+  { field: 'github', label: 'GitHub' },
+  { field: 'linkedin', label: 'LinkedIn' },
+];
+
+type DraftSkillField = 'technicalSkills' | 'softSkills' | 'toolsTechnologies';
+
+const DRAFT_SKILL_FIELDS: { field: DraftSkillField; label: string }[] = [
+  { field: 'technicalSkills', label: 'Technical Skills' },
+  { field: 'softSkills', label: 'Soft Skills' },
+  { field: 'toolsTechnologies', label: 'Tools & Technologies' },
+];
+
+const DRAFT_ENTRY_SECTIONS: { section: DraftEntrySection; label: string }[] = [
+  { section: 'education', label: 'Education' },
+  { section: 'experience', label: 'Experience' },
+  { section: 'projects', label: 'Project' },
+  { section: 'certifications', label: 'Certification' },
+  { section: 'awards', label: 'Award' },
+  { section: 'languages', label: 'Language' },
+  { section: 'volunteering', label: 'Volunteering' },
+  { section: 'publications', label: 'Publication' },
+  { section: 'customSections', label: 'Custom Section' },
+];
+
+const HIDDEN_PROJECTS_UNIT = 'hidden:projects';
+
+const toSkillUnitKey = (field: DraftSkillField, name: string) => `skill:${field}:${name.trim().toLowerCase()}`;
+
+const getDraftEntries = (draft: ResumeDraft, section: DraftEntrySection) => draft[section] as DraftEntry[];
+
+const describeDraftValue = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value)) return value.map(describeDraftValue).filter(Boolean).join('\n');
+  if (!isRecord(value)) return '';
+  if ('start' in value && 'current' in value) return formatDateRange(normalizeDateRange(value));
+  if ('month' in value && 'year' in value) return formatResumeDate(normalizeResumeDate(value));
+  return Object.entries(value)
+    .filter(([key]) => key !== 'id')
+    .map(([, item]) => describeDraftValue(item))
+    .filter(Boolean)
+    .join(' | ');
+};
+
+const getDraftUnits = (draft: ResumeDraft) => {
+  const hiddenProjects = draft.projects.filter((entry) => entry.hidden);
+  const units: DraftUnit[] = [
+    ...DRAFT_TEXT_FIELDS.map(({ field, label }) => ({ key: `field:${field}`, label, value: draft[field], text: draft[field].trim() })),
+    ...DRAFT_SKILL_FIELDS.flatMap(({ field, label }) =>
+      draft[field].map((name) => ({ key: toSkillUnitKey(field, name), label: `${label}: ${name}`, value: name, text: name }))),
+    ...DRAFT_ENTRY_SECTIONS.flatMap(({ section, label }) =>
+      getDraftEntries(draft, section).map((entry) => {
+        const value = Object.fromEntries(Object.entries(entry).filter(([key]) => key !== 'hidden'));
+        const title = Object.entries(value).find(([key, item]) => key !== 'id' && typeof item === 'string' && item.trim())?.[1];
+        return { key: `${section}:${entry.id}`, label: `${label}: ${typeof title === 'string' ? title.trim() : 'Untitled'}`, value, text: describeDraftValue(value) };
+      })),
+    {
+      key: HIDDEN_PROJECTS_UNIT,
+      label: 'Hidden projects',
+      value: hiddenProjects.map((entry) => entry.id),
+      text: hiddenProjects.map((entry) => entry.title.trim() || 'Untitled project').join(', '),
+    },
+  ];
+  return new Map(units.map((unit) => [unit.key, unit]));
+};
+
+const isSameDraftUnit = (first?: DraftUnit, second?: DraftUnit) => JSON.stringify(first?.value) === JSON.stringify(second?.value);
+
+const toDraftUnitChange = (key: string, before: DraftUnit | undefined, after: DraftUnit | undefined, conflict = false): DraftUnitChange => ({
+  key,
+  label: after?.label ?? before?.label ?? key,
+  before: before?.text ?? '',
+  after: after?.text ?? '',
+  status: !before ? 'added' : !after ? 'removed' : 'changed',
+  conflict,
+});
+
+const compareDrafts = (base: ResumeDraft, variant: ResumeDraft) => {
+  const baseUnits = getDraftUnits(base);
+  const variantUnits = getDraftUnits(variant);
+  return [...new Set([...baseUnits.keys(), ...variantUnits.keys()])]
+    .filter((key) => !isSameDraftUnit(baseUnits.get(key), variantUnits.get(key)))
+    .map((key) => toDraftUnitChange(key, baseUnits.get(key), variantUnits.get(key)));
+};
+
+const getBaseUpdates = (snapshot: ResumeDraft, base: ResumeDraft, variant: ResumeDraft) => {
+  const snapshotUnits = getDraftUnits(snapshot);
+  const baseUnits = getDraftUnits(base);
+  const variantUnits = getDraftUnits(variant);
+  return [...new Set([...baseUnits.keys(), ...snapshotUnits.keys()])]
+    .filter((key) => !isSameDraftUnit(snapshotUnits.get(key), baseUnits.get(key)) && !isSameDraftUnit(variantUnits.get(key), baseUnits.get(key)))
+    .map((key) =>
+      toDraftUnitChange(key, variantUnits.get(key), baseUnits.get(key), !isSameDraftUnit(snapshotUnits.get(key), variantUnits.get(key))));
+};
+
+const applyDraftUnit = (target: ResumeDraft, source: ResumeDraft, key: string): ResumeDraft => {
+  if (key === HIDDEN_PROJECTS_UNIT) {
+    const hiddenIds = new Set(source.projects.filter((entry) => entry.hidden).map((entry) => entry.id));
+    return { ...target, projects: target.projects.map((entry) => ({ ...entry, hidden: hiddenIds.has(entry.id) })) };
+  }
+  const [kind, id] = key.split(':');
+  const textField = DRAFT_TEXT_FIELDS.find((item) => `field:${item.field}` === key);
+  if (textField) return { ...target, [textField.field]: source[textField.field] };
+  const skillField = DRAFT_SKILL_FIELDS.find((item) => key.startsWith(`skill:${item.field}:`))?.field;
+  if (skillField) {
+    const matches = (name: string) => toSkillUnitKey(skillField, name) === key;
+    const sourceIndex = source[skillField].findIndex(matches);
+    const targetItems = target[skillField];
+    if (sourceIndex === -1) return { ...target, [skillField]: targetItems.filter((name) => !matches(name)) };
+    const name = source[skillField][sourceIndex];
+    if (targetItems.some(matches)) return { ...target, [skillField]: targetItems.map((item) => (matches(item) ? name : item)) };
+    const precedingKeys = new Set(source[skillField].slice(0, sourceIndex).map((item) => toSkillUnitKey(skillField, item)));
+    const insertAt = targetItems.reduce((position, item, index) => (precedingKeys.has(toSkillUnitKey(skillField, item)) ? index + 1 : position), 0);
+    return { ...target, [skillField]: [...targetItems.slice(0, insertAt), name, ...targetItems.slice(insertAt)] };
+  }
+  const section = DRAFT_ENTRY_SECTIONS.find((item) => item.section === kind)?.section;
+  if (!section) return target;
+
+  const sourceEntries = getDraftEntries(source, section);
+  const targetEntries = getDraftEntries(target, section);
+  const sourceEntry = sourceEntries.find((entry) => entry.id === id);
+  const targetEntry = targetEntries.find((entry) => entry.id === id);
+  if (!sourceEntry) return { ...target, [section]: targetEntries.filter((entry) => entry.id !== id) };
+
+  const nextEntry = { ...structuredClone(sourceEntry), ...(targetEntry && 'hidden' in targetEntry ? { hidden: targetEntry.hidden } : {}) };
+  if (targetEntry) return { ...target, [section]: targetEntries.map((entry) => (entry.id === id ? nextEntry : entry)) };
+  const precedingIds = new Set(sourceEntries.slice(0, sourceEntries.indexOf(sourceEntry)).map((entry) => entry.id));
+  const insertAt = targetEntries.reduce((position, entry, index) => (precedingIds.has(entry.id) ? index + 1 : position), 0);
+  return { ...target, [section]: [...targetEntries.slice(0, insertAt), nextEntry, ...targetEntries.slice(insertAt)] };
+};
+
+const nonEmptyEducation = (draft: ResumeDraft) =>
+  sortByDateRange(draft.education.filter((entry) => entry.school.trim() || entry.degree.trim() || hasDateRange(entry.dates)));
+
+const nonEmptyExperience = (draft: ResumeDraft) =>
+  sortByDateRange(
+    draft.experience.filter(
+      (entry) => entry.company.trim() || entry.role.trim() || hasDateRange(entry.dates) || entry.bullets.some((bullet) => bullet.text.trim()),
+    ),
+  );
+
+const nonEmptyProjects = (draft: ResumeDraft) =>
+  draft.projects.filter(
+    (entry) =>
+      !entry.hidden &&
+      (entry.title.trim() ||
+      entry.description.trim() ||
+      entry.techStack.length > 0 ||
+      entry.liveUrl.trim() ||
+      entry.githubUrl.trim()),
+  );
+
+const hasText = (...values: string[]) => values.some((value) => value.trim().length > 0);
+
+const sortByResumeDate = <T extends { date: ResumeDate }>(entries: T[]) =>
+  [...entries].sort((a, b) => compareDescending(toMonthIndex(a.date, 'end') ?? -Infinity, toMonthIndex(b.date, 'end') ?? -Infinity));
+
+const nonEmptyCertifications = (draft: ResumeDraft) =>
+  sortByResumeDate(draft.certifications.filter((entry) => hasText(entry.name, entry.issuer, entry.credentialUrl)));
+
+const nonEmptyAwards = (draft: ResumeDraft) =>
+  sortByResumeDate(draft.awards.filter((entry) => hasText(entry.title, entry.issuer, entry.description)));
+
+const skillItems = (draft: ResumeDraft) =>
+  [...draft.technicalSkills, ...draft.softSkills, ...draft.toolsTechnologies];
+
+const ATS_CONTACT_LABELS: Record<AtsContactField, string> = {
+  name: 'Full name',
+  email: 'Email address',
+  phone: 'Phone number',
+  linkedin: 'LinkedIn URL',
+  github: 'GitHub URL',
+};
+
+const SUMMARY_ACTION_VERB_PATTERN = /\b(built|led|designed|improved|implemented|created|optimized|developed|automated)\b/i;
+
+const countLabel = (count: number, singular: string, plural = `${singular}s`) => `${count} ${count === 1 ? singular : plural}`;
+
+const experienceBullets = (draft: ResumeDraft) =>
+  nonEmptyExperience(draft).flatMap((entry) => entry.bullets.map((bullet) => bullet.text.trim()).filter(Boolean));
+
+const ATS_CHECKS: Record<AtsCheckId, (draft: ResumeDraft, rule: AtsRuleConfig) => { passed: boolean; reason: string }> = {
+  'contact-field': (draft, rule) => {
+    const field = rule.field ?? 'name';
+    const value = draft[field].trim();
+    const invalid = field !== 'name' && Boolean(getFieldError(field, value));
+    return {
+      passed: Boolean(value) && !invalid,
+      reason: `${ATS_CONTACT_LABELS[field]} ${!value ? 'missing' : invalid ? 'is not valid' : 'provided'}.`,
+    };
+  },
+  'summary-length': (draft, rule) => {
+    const min = rule.min ?? 50;
+    const length = draft.summary.trim().length;
+    return { passed: length > min, reason: `Summary is ${countLabel(length, 'character')} (needs more than ${min}).` };
+  },
+  'summary-action-verb': (draft) => {
+    const passed = SUMMARY_ACTION_VERB_PATTERN.test(draft.summary);
+    return { passed, reason: passed ? 'Summary uses an action verb.' : 'No action verb found in summary.' };
+  },
+  'experience-bullets': (draft, rule) => {
+    const min = rule.min ?? 1;
+    const count = experienceBullets(draft).length;
+    return { passed: count >= min, reason: `${countLabel(count, 'experience bullet')} (target ${min}).` };
+  },
+  'work-or-volunteering': (draft, rule) => {
+    const min = rule.min ?? 1;
+    const bullets = experienceBullets(draft).length;
+    const roles = draft.volunteering.filter((entry) => entry.description.trim()).length;
+    return {
+      passed: bullets + roles >= min,
+      reason: `${countLabel(bullets, 'experience bullet')} and ${countLabel(roles, 'described volunteer role')} (target ${min}).`,
+    };
+  },
+  'quantified-bullets': (draft, rule) => {
+    const min = rule.min ?? 1;
+    const count = experienceBullets(draft).filter((bullet) => /\d/.test(bullet)).length;
+    return { passed: count >= min, reason: `${countLabel(count, 'bullet')} with numbers (target ${min}).` };
+  },
+  education: (draft, rule) => {
+    const min = rule.min ?? 1;
+    const count = nonEmptyEducation(draft).length;
+    return { passed: count >= min, reason: `${countLabel(count, 'education entry', 'education entries')} (target ${min}).` };
+  },
+  skills: (draft, rule) => {
+    const min = rule.min ?? 5;
+    const count = skillItems(draft).length;
+    return { passed: count >= min, reason: `${countLabel(count, 'skill')} listed (target ${min}).` };
+  },
+  projects: (draft, rule) => {
+    const min = rule.min ?? 1;
+    const count = nonEmptyProjects(draft).length;
+    return { passed: count >= min, reason: `${countLabel(count, 'project')} (target ${min}).` };
+  },
+  credentials: (draft, rule) => {
+    const min = rule.min ?? 1;
+    const count = nonEmptyCertifications(draft).length + nonEmptyAwards(draft).length;
+    return { passed: count >= min, reason: `${countLabel(count, 'certification or award', 'certifications or awards')} (target ${min}).` };
+  },
+};
+
+const ATS_CONTACT_FIELDS = Object.keys(ATS_CONTACT_LABELS) as AtsContactField[];
+
+const parseAtsRule = (value: unknown, path: string): AtsRuleConfig => {
+  if (!isRecord(value)) throw new Error(`${path} must be an object.`);
+  const { id, check, weight, message, field, min } = value;
+  if (typeof id !== 'string' || !id) throw new Error(`${path}.id must be a non-empty string.`);
+  if (typeof check !== 'string' || !(check in ATS_CHECKS)) throw new Error(`${path}.check "${String(check)}" is not a known check.`);
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) throw new Error(`${path}.weight must be a positive number.`);
+  if (typeof message !== 'string' || !message) throw new Error(`${path}.message must be a non-empty string.`);
+  if (field !== undefined && !ATS_CONTACT_FIELDS.includes(field as AtsContactField)) throw new Error(`${path}.field "${String(field)}" is not a contact field.`);
+  if (check === 'contact-field' && field === undefined) throw new Error(`${path}.field is required for contact-field checks.`);
+  if (min !== undefined && (typeof min !== 'number' || !Number.isFinite(min) || min < 0)) throw new Error(`${path}.min must be a non-negative number.`);
+  return { id, check: check as AtsCheckId, weight, message, ...(field !== undefined ? { field: field as AtsContactField } : {}), ...(min !== undefined ? { min } : {}) };
+};
+
+const parseAtsProfiles = (config: unknown): AtsProfile[] => {
+  if (!Array.isArray(config) || !config.length) throw new Error('ATS profile config must be a non-empty array.');
+  const profiles = config.map((value, index): AtsProfile => {
+    const path = `atsProfiles[${index}]`;
+    if (!isRecord(value) || typeof value.id !== 'string' || !value.id) throw new Error(`${path}.id must be a non-empty string.`);
+    if (typeof value.label !== 'string' || typeof value.description !== 'string') throw new Error(`${path} needs a label and a description.`);
+    if (!Array.isArray(value.rules) || !value.rules.length) throw new Error(`${path}.rules must be a non-empty array.`);
+    const rules = value.rules.map((rule, ruleIndex) => parseAtsRule(rule, `${path}.rules[${ruleIndex}]`));
+    const total = rules.reduce((sum, rule) => sum + rule.weight, 0);
+    if (total !== 100) throw new Error(`${path} rule weights add up to ${total}, not 100.`);
+    if (new Set(rules.map((rule) => rule.id)).size !== rules.length) throw new Error(`${path} has duplicate rule ids.`);
+    return { id: value.id, label: value.label, description: value.description, rules };
+  });
+  if (new Set(profiles.map((profile) => profile.id)).size !== profiles.length) throw new Error('ATS profile ids must be unique.');
+  return profiles;
+};
+
+const ATS_PROFILES = parseAtsProfiles(atsProfileConfig);
+
+const toAtsProfileChoice = (value: unknown): AtsProfile =>
+  ATS_PROFILES.find((profile) => profile.id === value) ?? ATS_PROFILES[0];
+
+const computeAtsResult = (draft: ResumeDraft, profileId: AtsProfileId = 'standard'): AtsResult => {
+  const profile = toAtsProfileChoice(profileId);
+  const evaluated = profile.rules.map((rule) => ({ rule, outcome: ATS_CHECKS[rule.check](draft, rule) }));
+  const breakdown = evaluated.map(({ rule, outcome }) => ({
+    id: rule.id,
+    earned: outcome.passed ? rule.weight : 0,
+    possible: rule.weight,
+    reason: outcome.reason,
+  }));
+  const possible = breakdown.reduce((total, item) => total + item.possible, 0);
+  const earned = breakdown.reduce((total, item) => total + item.earned, 0);
+  return {
+    score: possible ? Math.min(100, Math.round((earned / possible) * 100)) : 0,
+    profileId: profile.id,
+    breakdown,
+    suggestions: evaluated
+      .filter(({ outcome }) => !outcome.passed)
+      .map(({ rule }) => `${rule.message} (+${Math.round((rule.weight / possible) * 100)} points).`),
+  };
+};
+
+const toTemplateClass = (template: ResumeTemplate) => `template-${template.toLowerCase()}`;
+
+const toTemplateShellClass = ({ id, regions, print }: ResumeTemplateDefinition) =>
+  [
+    'resume-preview-shell',
+    toTemplateClass(id),
+    regions.sidebar ? `resume-sidebar-${regions.sidebar.side}` : '',
+    regions.sidebar?.filled ? 'resume-sidebar-filled' : '',
+    print.headingRule ? 'resume-rule-headings' : '',
+    print.uppercaseHeadings ? 'resume-upper-headings' : '',
+    print.centeredHeader ? 'resume-centered-header' : '',
+  ].filter(Boolean).join(' ');
+
+const toTemplateStyle = ({ regions, print }: ResumeTemplateDefinition, accentColor: string, pageSize: PageSizeId = 'a4') =>
+  ({
+    '--resume-accent': accentColor,
+    '--resume-font-family': RESUME_FONT_STACKS[print.fontFamily],
+    '--resume-heading-font-family': RESUME_FONT_STACKS[print.headingFontFamily],
+    '--resume-font-size': `${print.fontSize}pt`,
+    '--resume-line-height': print.lineHeight,
+    '--resume-heading-size': `${print.headingSize}pt`,
+    '--resume-name-size': `${print.nameSize}pt`,
+    '--resume-section-gap': `${print.sectionGap}pt`,
+    '--resume-entry-gap': `${print.entryGap}pt`,
+    '--resume-margin': `${((print.margin / toPageSizeChoice(pageSize).width) * 100).toFixed(2)}%`,
+    '--resume-sidebar-width': `${(regions.sidebar?.width ?? 0) * 100}%`,
+  }) as CSSProperties;
+
+type WritingSeverity = 'high' | 'medium' | 'low';
+
+type WritingFinding = {
+  id: string;
+  severity: WritingSeverity;
+  message: string;
+  suggestion: string;
+};
+
+type WritingContext = 'bullet' | 'summary' | 'description';
+
+const WEAK_OPENERS: { pattern: RegExp; suggestion: string }[] = [
+  { pattern: /^responsible for\b/i, suggestion: 'Replace with what you did: "Owned", "Led", "Ran".' },
+  { pattern: /^(helped|helping)( to)?\b/i, suggestion: 'Name your part: "Built", "Drafted", "Tested".' },
+  { pattern: /^assisted( with| in)?\b/i, suggestion: 'Name your part: "Built", "Drafted", "Tested".' },
+  { pattern: /^worked (on|with)\b/i, suggestion: 'Say what you produced: "Built", "Shipped", "Designed".' },
+  { pattern: /^(involved|participated) in\b/i, suggestion: 'Describe your contribution: "Delivered", "Implemented".' },
+  { pattern: /^(tasked with|duties included|in charge of)\b/i, suggestion: 'Lead with the outcome: "Led", "Managed", "Delivered".' },
+];
+
+const PASSIVE_VOICE_PATTERN =
+  /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(\w+ed|built|made|done|given|run|written|taken|shown|chosen|sent|held|kept|won|led)\b/i;
+
+const FILLER_WORDS = [
+  'synergy', 'go-getter', 'team player', 'hard worker', 'hardworking', 'hard-working', 'results-driven', 'results-oriented',
+  'detail-oriented', 'self-starter', 'think outside the box', 'dynamic', 'passionate', 'rockstar', 'ninja', 'guru',
+  'best-in-class', 'best of breed', 'proactive', 'motivated', 'stuff', 'things', 'etc',
+];
+
+const VAGUE_QUANTITY_PATTERN =
+  /\b(many|several|various|numerous|multiple|a lot of|lots of|tons of|a number of|a few|countless|significant(?:ly)?|substantial(?:ly)?)\b/i;
+
+// A lone "I", but not the one in "I/O" or "CI/CD".
+const FIRST_PERSON_PATTERN = /(?<![\w/])I(?![\w/])|\b(?:[Mm]e|[Mm]y|[Mm]ine|[Mm]yself|[Ww]e|[Oo]ur|[Oo]urs)\b/;
+
+const VERB_ALTERNATIVES: Record<string, string[]> = {
+  Built: ['Engineered', 'Developed', 'Assembled'],
+  Created: ['Designed', 'Launched', 'Established'],
+  Developed: ['Built', 'Engineered', 'Implemented'],
+  Improved: ['Optimized', 'Streamlined', 'Accelerated'],
+  Led: ['Directed', 'Headed', 'Spearheaded'],
+  Managed: ['Oversaw', 'Coordinated', 'Directed'],
+  Supported: ['Enabled', 'Maintained', 'Resolved'],
+};
+
+const MAX_SENTENCE_WORDS = 30;
+
+const WRITING_SEVERITY_ORDER: WritingSeverity[] = ['high', 'medium', 'low'];
+
+const firstWord = (text: string) => text.trim().split(/\s+/)[0]?.replace(/[^A-Za-z-]/g, '') ?? '';
+
+const findActionVerb = (text: string) => {
+  const word = firstWord(text).toLowerCase();
+  return ACTION_VERBS.find((verb) => verb.toLowerCase() === word) ?? null;
+};
+
+const analyzeWriting = (text: string, context: WritingContext = 'bullet'): WritingFinding[] => {
+  const cleaned = text.trim();
+  if (!cleaned) return [];
+  const findings: WritingFinding[] = [];
+
+  if (context === 'bullet') {
+    const weakOpener = WEAK_OPENERS.find((opener) => opener.pattern.test(cleaned));
+    if (weakOpener) {
+      const phrase = cleaned.match(weakOpener.pattern)?.[0] ?? '';
+      findings.push({ id: 'weak-opener', severity: 'high', message: `"${phrase}" is a weak opener.`, suggestion: weakOpener.suggestion });
+    } else if (!findActionVerb(cleaned)) {
+      findings.push({
+        id: 'action-verb',
+        severity: 'medium',
+        message: 'Start with a strong action verb.',
+        suggestion: 'Use "[Action verb] [what] [result]", e.g. "Reduced build time 40% by caching dependencies".',
+      });
+    }
+    if (!/\d/.test(cleaned)) {
+      findings.push({
+        id: 'no-metric',
+        severity: 'medium',
+        message: 'Add measurable impact (numbers).',
+        suggestion: 'Add a count, percentage, time saved or scale, e.g. "for 3,000 users" or "by 25%".',
+      });
+    }
+  }
+
+  const passive = cleaned.match(PASSIVE_VOICE_PATTERN);
+  if (passive) {
+    findings.push({
+      id: 'passive-voice',
+      severity: 'medium',
+      message: `Passive voice: "${passive[0]}".`,
+      suggestion: 'Make yourself the subject: "Was redesigned by me" becomes "Redesigned".',
+    });
+  }
+
+  const pronoun = cleaned.match(FIRST_PERSON_PATTERN);
+  if (pronoun) {
+    findings.push({
+      id: 'first-person',
+      severity: context === 'bullet' ? 'medium' : 'low',
+      message: `Avoid first-person pronouns ("${pronoun[0]}").`,
+      suggestion: 'Drop the pronoun and start with the verb: "I built" becomes "Built".',
+    });
+  }
+
+  FILLER_WORDS.filter((word) => new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i').test(cleaned)).forEach((word) => {
+    findings.push({
+      id: `filler-${word}`,
+      severity: 'low',
+      message: `"${word}" is filler.`,
+      suggestion: 'Cut it and show the quality through a concrete result instead.',
+    });
+  });
+
+  const vague = cleaned.match(VAGUE_QUANTITY_PATTERN);
+  if (vague) {
+    findings.push({
+      id: 'vague-quantity',
+      severity: 'medium',
+      message: `"${vague[0]}" is vague.`,
+      suggestion: 'Replace it with the actual number or a range, e.g. "12 services" or "~30%".',
+    });
+  }
+
+  const longest = Math.max(...cleaned.split(/[.!?;]+(?:\s|$)/).map((sentence) => sentence.split(/\s+/).filter(Boolean).length));
+  if (longest > MAX_SENTENCE_WORDS) {
+    findings.push({
+      id: 'long-sentence',
+      severity: 'low',
+      message: `Sentence runs ${longest} words.`,
+      suggestion: `Keep it under ${MAX_SENTENCE_WORDS} words: action, scope, result. Split the rest into another bullet.`,
+    });
+  }
+
+  return findings.sort((a, b) => WRITING_SEVERITY_ORDER.indexOf(a.severity) - WRITING_SEVERITY_ORDER.indexOf(b.severity));
+};
+
+const analyzeBulletGroups = (groups: string[][]): WritingFinding[][][] => {
+  const verbCounts = new Map<string, number>();
+  groups.flat().forEach((bullet) => {
+    const verb = findActionVerb(bullet);
+    if (verb) verbCounts.set(verb, (verbCounts.get(verb) ?? 0) + 1);
+  });
+
+  return groups.map((bullets) =>
+    bullets.map((bullet) => {
+      const findings = analyzeWriting(bullet);
+      const verb = findActionVerb(bullet);
+      const count = verb ? verbCounts.get(verb) ?? 0 : 0;
+      if (verb && count > 1) {
+        const alternatives = (VERB_ALTERNATIVES[verb] ?? []).filter((candidate) => !verbCounts.has(candidate));
+        findings.push({
+          id: 'repeated-verb',
+          severity: 'low',
+          message: `"${verb}" starts ${count} bullets.`,
+          suggestion: `Vary the opening verb${alternatives.length ? `, e.g. ${alternatives.map((item) => `"${item}"`).join(', ')}` : ''}.`,
+        });
+      }
+      return findings;
+    }));
+};
+
+type WritingAssistantProviderId = 'local' | 'llm';
+
+type BulletContext = {
+  role: string;
+  company: string;
+};
+
+type BulletRewrite = {
+  text: string;
+  hints: string[];
+};
+
+type WritingAssistant = {
+  id: WritingAssistantProviderId;
+  draftSummary: (draft: ResumeDraft, signal?: AbortSignal) => Promise<string>;
+  rewriteBullet: (bullet: string, context: BulletContext, signal?: AbortSignal) => Promise<BulletRewrite>;
+  shortenDescription: (text: string, maxLength: number, signal?: AbortSignal) => Promise<string>;
+};
+
+type LlmAssistantConfig = {
+  endpoint: string;
+  model: string;
+  apiKey: string;
+};
+
+type WritingAssistantSettings = {
+  provider: WritingAssistantProviderId;
+  llm: LlmAssistantConfig;
+};
+
+const WRITING_ASSISTANT_PROVIDERS: { id: WritingAssistantProviderId; label: string; description: string }[] = [
+  { id: 'local', label: 'Local (offline)', description: 'Rule and template based. Runs in your browser and gives the same output every time.' },
+  { id: 'llm', label: 'LLM (OpenAI-compatible API)', description: 'Sends the text you are editing to the endpoint below.' },
+];
+
+const createWritingAssistantSettings = (): WritingAssistantSettings => ({
+  provider: 'local',
+  llm: { endpoint: 'https://api.openai.com/v1/chat/completions', model: 'gpt-4o-mini', apiKey: '' },
+});
+
+const WRITING_ASSISTANT_SCHEMA: StorageSchema<WritingAssistantSettings> = {
+  version: 2,
+  migrations: [
+    createEnvelopeMigration('writing assistant settings'),
+    {
+      to: 2,
+      description: 'stop saving the LLM API key with the other settings',
+      migrate: (data) => (isRecord(data) && isRecord(data.llm) ? { ...data, llm: { ...data.llm, apiKey: '' } } : data),
+    },
+  ],
+  normalize: (data) => {
+    if (!isRecord(data)) throw new Error('Expected an object with provider and llm settings.');
+    const defaults = createWritingAssistantSettings();
+    const llm = isRecord(data.llm) ? data.llm : {};
+    return {
+      provider: data.provider === 'llm' ? 'llm' : 'local',
+      llm: {
+        endpoint: toSafeString(llm.endpoint) || defaults.llm.endpoint,
+        model: toSafeString(llm.model) || defaults.llm.model,
+        apiKey: '',
+      },
+    };
+  },
+  fallback: createWritingAssistantSettings,
+};
+
+const readSessionApiKey = () => {
+  try {
+    return sessionStorage.getItem(LLM_API_KEY_SESSION_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+const writeSessionApiKey = (apiKey: string) => {
+  try {
+    if (apiKey) sessionStorage.setItem(LLM_API_KEY_SESSION_KEY, apiKey);
+    else sessionStorage.removeItem(LLM_API_KEY_SESSION_KEY);
+  } catch {
+    // Without session storage the key only lives in memory until the page reloads.
+  }
+};
+
+const readWritingAssistantSettings = (): WritingAssistantSettings => {
+  const settings = readStored(WRITING_ASSISTANT_KEY, WRITING_ASSISTANT_SCHEMA);
+  return { ...settings, llm: { ...settings.llm, apiKey: readSessionApiKey() } };
+};
+
+const writeWritingAssistantSettings = (settings: WritingAssistantSettings) => {
+  writeSessionApiKey(settings.llm.apiKey);
+  writeStored(WRITING_ASSISTANT_KEY, WRITING_ASSISTANT_SCHEMA, { ...settings, llm: { ...settings.llm, apiKey: '' } });
+};
+
+const getEndpointHost = (endpoint: string) => (isValidUrl(endpoint.trim()) ? new URL(endpoint.trim()).host : null);
+
+const WEAK_OPENER_REPLACEMENTS: [RegExp, string][] = [
+  [/^(?:was |am |is )?responsible for\s+/i, 'Owned '],
+  [/^(?:helped|helping|assisted)(?: to| with| in)?\s+/i, 'Supported '],
+  [/^worked (?:on|with)\s+/i, 'Built '],
+  [/^(?:involved|participated) in\s+/i, 'Contributed to '],
+  [/^(?:tasked with|in charge of|duties included)\s+/i, 'Led '],
+];
+
+const IRREGULAR_PAST_TENSE: Record<string, string> = {
+  build: 'Built',
+  building: 'Built',
+  lead: 'Led',
+  leading: 'Led',
+  drive: 'Drove',
+  driving: 'Drove',
+  write: 'Wrote',
+  writing: 'Wrote',
+  grow: 'Grew',
+  growing: 'Grew',
+  cut: 'Cut',
+  cutting: 'Cut',
+  run: 'Ran',
+  running: 'Ran',
+};
+
+const CONCISE_REPLACEMENTS: [RegExp, string][] = [
+  [/\bin order to\b/gi, 'to'],
+  [/\butiliz(?:e|ed|ing)\b/gi, 'used'],
+  [/\b(?:was|were) responsible for\b/gi, 'owned'],
+  [/\ba (?:wide )?variety of\b/gi, 'varied'],
+  [/\bdue to the fact that\b/gi, 'because'],
+  [/\bat this point in time\b/gi, 'now'],
+  [/\bfor the purpose of\b/gi, 'for'],
+  [/\bwith the goal of\b/gi, 'to'],
+  [/\b(?:really|very|basically|actually|successfully)\s+/gi, ''],
+];
+
+const toPastTenseVerb = (word: string) => {
+  const lower = word.toLowerCase();
+  if (IRREGULAR_PAST_TENSE[lower]) return IRREGULAR_PAST_TENSE[lower];
+  const stem = lower.replace(/(?:ing|s)$/, '');
+  const forms = [lower, `${stem}ed`, `${stem}d`, `${stem.replace(/y$/, 'i')}ed`];
+  return ACTION_VERBS.find((verb) => forms.includes(verb.toLowerCase())) ?? null;
+};
+
+const capitalize = (text: string) => (text ? `${text[0].toUpperCase()}${text.slice(1)}` : text);
+
+const lowerFirst = (text: string) => (/^[A-Z][a-z]/.test(text) ? `${text[0].toLowerCase()}${text.slice(1)}` : text);
+
+const formatList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const getExperienceYears = (draft: ResumeDraft) => {
+  const bounds = nonEmptyExperience(draft).map((entry) => getDateRangeBounds(entry.dates));
+  const starts = bounds.map((bound) => bound.start).filter((value): value is number => value !== null);
+  const ends = bounds.map((bound) => bound.end ?? bound.start).filter((value): value is number => value !== null);
+  if (!starts.length || !ends.length) return 0;
+  return Math.floor((Math.max(...ends) - Math.min(...starts) + 1) / 12);
+};
+
+const getBulletRewriteHints = (text: string) => {
+  const hints: string[] = [];
+  const vague = text.match(VAGUE_QUANTITY_PATTERN);
+  if (vague) hints.push(`Replace "${vague[0]}" with the actual number.`);
+  if (!/\d/.test(text)) hints.push('Add a measurable result, e.g. "cutting load time by 30%".');
+  return hints;
+};
+
+const localWritingAssistant: WritingAssistant = {
+  id: 'local',
+  draftSummary: async (draft) => {
+    const experience = nonEmptyExperience(draft);
+    const latest = experience[0];
+    const years = getExperienceYears(draft);
+    const title = latest?.role.trim() || (nonEmptyProjects(draft).length ? 'Developer' : 'Early-career professional');
+    const skills = [...draft.technicalSkills, ...draft.toolsTechnologies].slice(0, 4);
+    const sentences = [
+      years > 0
+        ? `${title} with ${years}+ year${years === 1 ? '' : 's'} of experience${latest?.company.trim() ? `, most recently at ${latest.company.trim()}` : ''}.`
+        : `${title}${latest?.company.trim() ? ` at ${latest.company.trim()}` : ''} focused on shipping reliable, user-facing work.`,
+    ];
+    if (skills.length) sentences.push(`Skilled in ${formatList(skills)}.`);
+    const highlight = experience.flatMap((entry) => entry.bullets.map((bullet) => bullet.text)).find((bullet) => /\d/.test(bullet) && findActionVerb(bullet));
+    if (highlight) sentences.push(`${capitalize(highlight.trim().replace(/[.;]+$/, ''))}.`);
+    const project = nonEmptyProjects(draft).find((entry) => entry.title.trim());
+    if (project) {
+      const stack = project.techStack.slice(0, 3);
+      sentences.push(`Built ${project.title.trim()}${stack.length ? ` with ${formatList(stack)}` : ''}.`);
+    }
+    return sentences.join(' ');
+  },
+  rewriteBullet: async (bullet) => {
+    let text = bullet.trim().replace(/^[-*•]\s*/, '').replace(/^(?:I|We)\s+/, '');
+    const opener = WEAK_OPENER_REPLACEMENTS.find(([pattern]) => pattern.test(text));
+    if (opener) {
+      text = text.replace(opener[0], opener[1]);
+    } else if (!findActionVerb(text)) {
+      const [word, ...rest] = text.split(/\s+/);
+      const verb = toPastTenseVerb(word ?? '');
+      text = verb ? [verb, ...rest].join(' ') : `Delivered ${lowerFirst(text)}`;
+    }
+    text = capitalize(text.replace(/\s+/g, ' ').replace(/[.;]+$/, ''));
+    return { text, hints: getBulletRewriteHints(text) };
+  },
+  shortenDescription: async (text, maxLength) => {
+    let result = capitalize(
+      CONCISE_REPLACEMENTS.reduce((value, [pattern, replacement]) => value.replace(pattern, replacement), text)
+        .replace(/\s+/g, ' ')
+        .trim(),
+    );
+    if (result.length <= maxLength) return result;
+    const sentences = result.match(/[^.!?]+[.!?]+(?:\s|$)/g) ?? [];
+    let kept = '';
+    for (const sentence of sentences) {
+      if ((kept + sentence).trim().length > maxLength) break;
+      kept += sentence;
+    }
+    if (kept.trim()) return kept.trim();
+    result = result.slice(0, maxLength - 1);
+    return `${result.slice(0, Math.max(result.lastIndexOf(' '), 1)).replace(/[,;:\s]+$/, '')}…`;
+  },
+};
+
+const describeDraftForPrompt = (draft: ResumeDraft) =>
+  JSON.stringify({
+    experience: nonEmptyExperience(draft).map((entry) => ({
+      role: entry.role,
+      company: entry.company,
+      dates: formatDateRange(entry.dates),
+      bullets: entry.bullets.map((bullet) => bullet.text).filter((bullet) => bullet.trim()),
+    })),
+    projects: nonEmptyProjects(draft).map((entry) => ({ title: entry.title, description: entry.description, techStack: entry.techStack })),
+    skills: skillItems(draft),
+  });
+
+const createLlmWritingAssistant = (config: LlmAssistantConfig): WritingAssistant => {
+  let approved = false;
+  const requestCompletion = async (instruction: string, input: string, signal: AbortSignal) => {
+    const response = await fetch(config.endpoint.trim(), {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey.trim() ? { Authorization: `Bearer ${config.apiKey.trim()}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.3,
+        messages: [
+          { role: 'system', content: `You are a resume writing assistant. ${instruction} Reply with the text only, no quotes or commentary.` },
+          { role: 'user', content: input },
+        ],
+      }),
+    });
+    if (!response.ok) throw new Error(`LLM request failed (${response.status} ${response.statusText}).`);
+    const payload: unknown = await response.json();
+    const choices = isRecord(payload) && Array.isArray(payload.choices) ? payload.choices : [];
+    const message = isRecord(choices[0]) && isRecord(choices[0].message) ? choices[0].message : {};
+    const content = toSafeString(message.content).trim();
+    if (!content) throw new Error('LLM response did not include any text.');
+    return content;
+  };
+
+  const complete = async (instruction: string, input: string, signal?: AbortSignal) => {
+    const host = getEndpointHost(config.endpoint);
+    if (!host) throw new Error('Set a valid http(s) LLM endpoint in Writing Assistant settings.');
+    if (!approved && !window.confirm(`Send this text${config.apiKey.trim() ? ' and your API key' : ''} to ${host}?`)) {
+      throw new Error(`Request to ${host} was cancelled.`);
+    }
+    approved = true;
+    const timeout = AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS);
+    try {
+      return await requestCompletion(instruction, input, signal ? AbortSignal.any([signal, timeout]) : timeout);
+    } catch (error) {
+      if (timeout.aborted) throw new Error(`${host} did not respond within ${LLM_REQUEST_TIMEOUT_MS / 1000} seconds.`);
+      throw error;
+    }
+  };
+
+  return {
+    id: 'llm',
+    draftSummary: (draft, signal) =>
+      complete('Write a 2-3 sentence professional summary in third-person implied voice, with no pronouns.', describeDraftForPrompt(draft), signal),
+    rewriteBullet: async (bullet, context, signal) => {
+      const text = await complete(
+        `Rewrite this resume bullet${context.role ? ` for a ${context.role}${context.company ? ` at ${context.company}` : ''}` : ''}. Start with a strong past-tense action verb and keep it under 30 words. Keep the numbers it already has and do not invent new ones.`,
+        bullet,
+        signal,
+      );
+      return { text, hints: getBulletRewriteHints(text) };
+    },
+    shortenDescription: async (text, maxLength, signal) => {
+      const shortened = await complete(`Shorten this project description to at most ${maxLength} characters, keeping the key technologies and outcome.`, text, signal);
+      return shortened.length > maxLength ? localWritingAssistant.shortenDescription(shortened, maxLength) : shortened;
+    },
+  };
+};
+
+const getWritingAssistant = (settings: WritingAssistantSettings): WritingAssistant =>
+  settings.provider === 'llm' ? createLlmWritingAssistant(settings.llm) : localWritingAssistant;
+
+const COVER_LETTER_STRUCTURES: { id: CoverLetterStructureId; label: string; description: string }[] = [
+  { id: 'classic', label: 'Classic', description: 'Introduction, recent experience, skills and projects, closing.' },
+  { id: 'achievements', label: 'Achievements', description: 'Short introduction followed by a list of your strongest results.' },
+  { id: 'projects', label: 'Project Spotlight', description: 'Lets your projects make the case. Good when work history is short.' },
+];
+
+const createCoverLetter = (): CoverLetter => ({ company: '', role: '', hiringManager: '', structure: 'classic', body: '' });
+
+const toCoverLetterStructure = (value: unknown): CoverLetterStructureId =>
+  COVER_LETTER_STRUCTURES.find((structure) => structure.id === value)?.id ?? 'classic';
+
+const normalizeCoverLetter = (value: unknown): CoverLetter => {
+  const item = isRecord(value) ? value : {};
+  return {
+    company: toSafeString(item.company),
+    role: toSafeString(item.role),
+    hiringManager: toSafeString(item.hiringManager),
+    structure: toCoverLetterStructure(item.structure),
+    body: toSafeString(item.body),
+  };
+};
+
+const toInlineSentence = (text: string) =>
+  lowerFirst(text.trim().replace(/[.;]+$/, '').replace(/^(?:A|An|The)\b/, (article) => article.toLowerCase()));
+
+const buildCoverLetterBody = (draft: ResumeDraft, letter: CoverLetter) => {
+  const position = letter.role.trim() ? `the ${letter.role.trim()} position` : 'this position';
+  const company = letter.company.trim() || 'your company';
+  const latest = nonEmptyExperience(draft)[0];
+  const years = getExperienceYears(draft);
+  const skills = [...draft.technicalSkills, ...draft.toolsTechnologies].slice(0, 4);
+  const projects = nonEmptyProjects(draft).filter((entry) => entry.title.trim()).slice(0, 2);
+  const highlights = experienceBullets(draft)
+    .map((bullet, index) => ({ bullet, index, quantified: /\d/.test(bullet) }))
+    .sort((a, b) => Number(b.quantified) - Number(a.quantified) || a.index - b.index)
+    .slice(0, 3)
+    .map((item) => item.bullet);
+  const describeProject = (entry: ProjectEntry) =>
+    `${entry.title.trim()}${entry.techStack.length ? ` (${formatList(entry.techStack.slice(0, 3))})` : ''}${entry.description.trim() ? `, ${toInlineSentence(entry.description)}` : ''}`;
+
+  const background = latest?.role.trim()
+    ? `As ${/^[aeiou]/i.test(latest.role.trim()) ? 'an' : 'a'} ${latest.role.trim()}${latest.company.trim() ? ` at ${latest.company.trim()}` : ''}${years > 0 ? ` with ${years}+ year${years === 1 ? '' : 's'} of experience` : ''}, I focus on work that ships and makes a measurable difference.`
+    : skills.length
+      ? `I bring hands-on experience with ${formatList(skills)}.`
+      : '';
+  const intro = `I am excited to apply for ${position} at ${company}.${background ? ` ${background}` : ''}`;
+  const closing = `I would welcome the chance to discuss how I can contribute to ${company}. Thank you for your time and consideration.`;
+
+  if (letter.structure === 'achievements') {
+    const results = highlights.length ? highlights : projects.map((entry) => `Built ${describeProject(entry)}`);
+    return [
+      `I am writing to apply for ${position} at ${company}.${results.length ? ' A few results I am proud of:' : ''}`,
+      results.map((item) => `- ${item.trim().replace(/[.;]+$/, '')}.`).join('\n'),
+      `I would bring the same focus on measurable impact to ${company}, and I look forward to talking with you.`,
+    ].filter(Boolean).join('\n\n');
+  }
+
+  if (letter.structure === 'projects') {
+    return [
+      `${intro} The clearest way to show what I can do is through what I have built.`,
+      ...projects.map((entry) => `I built ${describeProject(entry)}.`),
+      projects.length === 0 && highlights.length ? `Recently, I ${highlights.map(toInlineSentence).join(', and ')}.` : '',
+      closing,
+    ].filter(Boolean).join('\n\n');
+  }
+
+  return [
+    intro,
+    highlights.length
+      ? `${latest?.dates.current ? 'In my current role' : 'Most recently'}${latest?.company.trim() ? ` at ${latest.company.trim()}` : ''}, I ${toInlineSentence(highlights[0])}.${highlights[1] ? ` I also ${toInlineSentence(highlights[1])}.` : ''}`
+      : '',
+    [
+      projects[0] ? `Outside of my day-to-day work, I built ${describeProject(projects[0])}.` : '',
+      skills.length ? `My toolkit includes ${formatList(skills)}, which lines up closely with what ${company} needs.` : '',
+    ].filter(Boolean).join(' '),
+    closing,
+  ].filter(Boolean).join('\n\n');
+};
+
+type CoverLetterBlock = { kind: 'paragraph'; text: string } | { kind: 'list'; items: string[] };
+
+const toCoverLetterBlocks = (body: string): CoverLetterBlock[] =>
+  body
+    .split(/\n\s*\n/)
+    .map((block) => block.split('\n').map((line) => line.trim()).filter(Boolean))
+    .filter((lines) => lines.length > 0)
+    .map((lines) =>
+      lines.every((line) => /^[-*•]\s+/.test(line))
+        ? { kind: 'list' as const, items: lines.map((line) => line.replace(/^[-*•]\s+/, '')) }
+        : { kind: 'paragraph' as const, text: lines.join(' ') });
+
+const getCoverLetterParts = (draft: ResumeDraft, letter: CoverLetter) => ({
+  name: draft.name.trim(),
+  contact: [draft.email, draft.phone, draft.location].map((item) => item.trim()).filter(Boolean).join(' | '),
+  date: new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+  recipient: (['hiringManager', 'company'] as const).map((field) => ({ field, text: letter[field].trim() })).filter((line) => line.text),
+  salutation: `Dear ${letter.hiringManager.trim() || 'Hiring Manager'},`,
+  blocks: toCoverLetterBlocks(letter.body),
+  signOff: 'Sincerely,',
+});
+
+const toCoverLetterText = (draft: ResumeDraft, letter: CoverLetter) => {
+  const parts = getCoverLetterParts(draft, letter);
+  return [
+    [parts.name, parts.contact].filter(Boolean).join('\n'),
+    parts.date,
+    parts.recipient.map((line) => line.text).join('\n'),
+    parts.salutation,
+    ...parts.blocks.map((block) => (block.kind === 'list' ? block.items.map((item) => `- ${item}`).join('\n') : block.text)),
+    [parts.signOff, parts.name].filter(Boolean).join('\n'),
+  ].filter(Boolean).join('\n\n');
+};
+
+const computeTopImprovements = (result: AtsResult) => result.suggestions.slice(0, 3);
+
+const getInvalidDraftFields = (draft: ResumeDraft): InvalidDraftField[] => {
+  const contact = ([
+    ['email', 'Email'],
+    ['phone', 'Phone'],
+    ['linkedin', 'LinkedIn'],
+    ['github', 'GitHub'],
+  ] as const).map(([field, label]) => ({ field, label, value: draft[field].trim(), message: getFieldError(field, draft[field]) }));
+  const projects = nonEmptyProjects(draft).flatMap((entry, index) => {
+    const title = entry.title.trim() || `Project ${index + 1}`;
+    return [
+      { field: 'liveUrl' as const, label: `${title} live URL`, value: entry.liveUrl.trim(), message: getFieldError('url', entry.liveUrl) },
+      { field: 'githubUrl' as const, label: `${title} GitHub URL`, value: entry.githubUrl.trim(), message: getFieldError('github', entry.githubUrl) },
+    ];
+  });
+  return [...contact, ...projects].filter((item) => item.message);
+};
+
+const toInvalidFieldWarnings = (fields: InvalidDraftField[]) =>
+  fields.map((item) => `${item.label} "${item.value}" does not look valid and will be exported as typed.`);
+
+const shouldWarnIncomplete = (draft: ResumeDraft) => {
   const hasName = Boolean(draft.name.trim());
   const hasProjectOrExperience = nonEmptyProjects(draft).length > 0 || nonEmptyExperience(draft).length > 0;
   return !hasName || !hasProjectOrExperience;
 };
 
-const toPlainTextResume = (draft: ResumeDraft) => {
-  const lines: string[] = [];
-  const contact = [draft.email, draft.phone, draft.location].map((item) => item.trim()).filter(Boolean).join(' | ');
-  const education = nonEmptyEducation(draft);
-  const experience = nonEmptyExperience(draft);
-  const projects = nonEmptyProjects(draft);
-  const skills = skillItems(draft);
+type SkillCategory = 'technical' | 'soft' | 'tools';
+type JobKeywordLocation = 'summary' | 'experience' | 'projects' | 'skills';
+
+type JobKeywordMatch = {
+  keyword: string;
+  category: SkillCategory | 'keyword';
+  importance: 'required' | 'preferred';
+  foundIn: JobKeywordLocation[];
+  suggestion: string;
+};
+
+type JobMatchReport = {
+  score: number;
+  matched: JobKeywordMatch[];
+  missing: JobKeywordMatch[];
+};
+
+type SkillDefinition = {
+  name: string;
+  category: SkillCategory;
+  aliases: string[];
+  signals: string[];
+  related: string[];
+};
+
+type SkillSuggestion = {
+  name: string;
+  category: SkillCategory;
+  reason: string;
+};
+
+// aliases are true synonyms; signals are sub-products or practices that show the skill without naming it.
+const defineSkills = (
+  category: SkillCategory,
+  entries: Record<string, { aliases?: string[]; signals?: string[]; related?: string[] }>,
+): SkillDefinition[] =>
+  Object.entries(entries).map(([name, { aliases = [], signals = [], related = [] }]) => ({ name, category, aliases, signals, related }));
+
+const SKILL_TAXONOMY: SkillDefinition[] = [
+  ...defineSkills('technical', {
+    JavaScript: { aliases: ['JS', 'ES6', 'ECMAScript'], related: ['TypeScript', 'HTML', 'CSS'] },
+    TypeScript: { aliases: ['TS'], related: ['JavaScript'] },
+    Python: { aliases: ['py', 'python3'], related: ['Django', 'Flask', 'Pandas'] },
+    Java: { related: ['Spring Boot', 'Kotlin'] },
+    'C++': { aliases: ['cpp'], related: ['Data Structures', 'Algorithms'] },
+    'C#': { aliases: ['csharp', 'C Sharp'], related: ['.NET'] },
+    Go: { aliases: ['Golang'], related: ['Microservices', 'Docker'] },
+    Rust: {},
+    Ruby: { related: ['Ruby on Rails'] },
+    'Ruby on Rails': { aliases: ['Rails', 'RoR'], related: ['Ruby', 'PostgreSQL'] },
+    PHP: { related: ['MySQL'] },
+    Kotlin: { related: ['Android', 'Java'] },
+    Swift: { related: ['iOS'] },
+    SQL: { related: ['PostgreSQL', 'MySQL'] },
+    HTML: { aliases: ['HTML5'], related: ['CSS', 'Accessibility'] },
+    CSS: { aliases: ['CSS3'], related: ['Sass', 'Tailwind CSS', 'Responsive Design'] },
+    React: { aliases: ['React.js', 'ReactJS'], related: ['Redux', 'Next.js', 'TypeScript', 'Jest'] },
+    Angular: { aliases: ['AngularJS', 'Angular.js'], related: ['TypeScript', 'RxJS'] },
+    RxJS: {},
+    Vue: { aliases: ['Vue.js', 'VueJS'], related: ['Nuxt', 'JavaScript'] },
+    Nuxt: { aliases: ['Nuxt.js'], related: ['Vue'] },
+    Svelte: { signals: ['SvelteKit'] },
+    'Next.js': { aliases: ['NextJS'], related: ['React', 'Vercel'] },
+    'Node.js': { aliases: ['Node', 'NodeJS'], related: ['Express', 'REST', 'JavaScript'] },
+    Express: { aliases: ['Express.js', 'ExpressJS'], related: ['Node.js', 'REST'] },
+    Django: { related: ['Python', 'PostgreSQL'] },
+    Flask: { related: ['Python', 'REST'] },
+    'Spring Boot': { aliases: ['Spring Framework'], related: ['Java', 'Microservices'] },
+    '.NET': { aliases: ['dotnet', '.NET Core'], signals: ['ASP.NET'], related: ['C#'] },
+    GraphQL: { signals: ['Apollo'], related: ['REST', 'Node.js'] },
+    REST: { aliases: ['REST API', 'REST APIs', 'RESTful'], related: ['Postman'] },
+    Redux: { signals: ['Redux Toolkit'], related: ['React'] },
+    'Tailwind CSS': { aliases: ['Tailwind', 'TailwindCSS'], related: ['CSS'] },
+    Sass: { aliases: ['SCSS'], related: ['CSS'] },
+    PostgreSQL: { aliases: ['Postgres'], signals: ['psql'], related: ['SQL'] },
+    MySQL: { related: ['SQL'] },
+    MongoDB: { aliases: ['Mongo'], related: ['Node.js'] },
+    Redis: { related: ['Web Performance'] },
+    Elasticsearch: { signals: ['ELK'] },
+    DynamoDB: { aliases: ['Dynamo'], related: ['AWS'] },
+    Firebase: { signals: ['Firestore'], related: ['GCP'] },
+    'Machine Learning': { aliases: ['ML'], related: ['Python', 'TensorFlow', 'PyTorch'] },
+    'Deep Learning': { aliases: ['neural networks'], related: ['PyTorch', 'TensorFlow'] },
+    TensorFlow: { signals: ['Keras'], related: ['Machine Learning', 'Python'] },
+    PyTorch: { related: ['Deep Learning', 'Python'] },
+    Pandas: { related: ['NumPy', 'Python'] },
+    NumPy: { related: ['Pandas', 'Python'] },
+    'Data Structures': { aliases: ['DSA'], related: ['Algorithms'] },
+    Algorithms: { related: ['Data Structures'] },
+    Microservices: { aliases: ['microservice'], related: ['Docker', 'Kubernetes', 'System Design'] },
+    'System Design': { signals: ['distributed systems'], related: ['Microservices'] },
+    'Unit Testing': { aliases: ['unit tests'], signals: ['TDD', 'test-driven'], related: ['Jest'] },
+    Accessibility: { aliases: ['a11y'], signals: ['WCAG', 'ARIA'], related: ['HTML'] },
+    'Responsive Design': { signals: ['mobile-first'], related: ['CSS'] },
+    'Web Performance': { aliases: ['page speed'], signals: ['Core Web Vitals', 'Lighthouse'], related: ['Webpack'] },
+    Android: { related: ['Kotlin'] },
+    iOS: { related: ['Swift'] },
+    'React Native': { related: ['React', 'iOS', 'Android'] },
+    Flutter: { signals: ['Dart'], related: ['iOS', 'Android'] },
+  }),
+  ...defineSkills('tools', {
+    Git: { related: ['GitHub'] },
+    GitHub: { signals: ['GitHub Actions'], related: ['Git', 'CI/CD'] },
+    GitLab: { signals: ['GitLab CI'], related: ['Git', 'CI/CD'] },
+    Docker: { signals: ['containers', 'containerized', 'Dockerfile', 'docker-compose'], related: ['Kubernetes', 'CI/CD'] },
+    Kubernetes: { aliases: ['k8s'], signals: ['kubectl', 'Helm'], related: ['Docker', 'Terraform'] },
+    AWS: { aliases: ['Amazon Web Services'], signals: ['EC2', 'S3', 'Lambda', 'CloudFront'], related: ['Terraform', 'Docker'] },
+    Azure: { aliases: ['Microsoft Azure'], related: ['.NET'] },
+    GCP: { aliases: ['Google Cloud', 'Google Cloud Platform'], signals: ['BigQuery'], related: ['Kubernetes'] },
+    Vercel: { related: ['Next.js'] },
+    Terraform: { signals: ['infrastructure as code', 'IaC'], related: ['AWS'] },
+    Jenkins: { related: ['CI/CD'] },
+    'CI/CD': { aliases: ['continuous integration', 'continuous deployment', 'continuous delivery'], related: ['GitHub'] },
+    Jira: { related: ['Agile', 'Scrum'] },
+    Figma: { related: ['Responsive Design'] },
+    Webpack: { related: ['Vite'] },
+    Vite: { related: ['Webpack'] },
+    Jest: { related: ['Unit Testing'] },
+    Cypress: { signals: ['end-to-end tests', 'e2e tests'], related: ['Playwright'] },
+    Playwright: { related: ['Cypress'] },
+    Postman: { related: ['REST'] },
+    Linux: { signals: ['Ubuntu', 'bash', 'shell scripting'] },
+    Kafka: { aliases: ['Apache Kafka'], related: ['Microservices'] },
+    RabbitMQ: { related: ['Microservices'] },
+    Nginx: { related: ['Linux'] },
+    Storybook: { related: ['React'] },
+    Datadog: { signals: ['observability'] },
+  }),
+  ...defineSkills('soft', {
+    Communication: { signals: ['presented', 'presentations', 'technical writing'] },
+    Leadership: { aliases: ['Team Leadership'], signals: ['led a team', 'team lead', 'tech lead'], related: ['Mentoring'] },
+    'Problem Solving': { signals: ['troubleshot', 'troubleshooting', 'root cause'] },
+    Collaboration: { signals: ['collaborated', 'cross-functional', 'partnered with'], related: ['Communication'] },
+    Mentoring: { signals: ['mentored', 'coached', 'onboarded'], related: ['Leadership'] },
+    Ownership: { signals: ['owned', 'end-to-end'] },
+    'Time Management': { signals: ['prioritized', 'deadlines'] },
+    'Stakeholder Management': { signals: ['stakeholders'], related: ['Communication'] },
+    'Critical Thinking': {},
+    Adaptability: {},
+    Teamwork: {},
+    Agile: { signals: ['sprints', 'Kanban'], related: ['Scrum'] },
+    Scrum: { signals: ['standups', 'sprint planning'], related: ['Agile'] },
+  }),
+];
+
+const SKILL_CATEGORY_FIELDS: Record<SkillCategory, 'technicalSkills' | 'softSkills' | 'toolsTechnologies'> = {
+  technical: 'technicalSkills',
+  soft: 'softSkills',
+  tools: 'toolsTechnologies',
+};
+
+const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+  technical: 'Technical Skills',
+  soft: 'Soft Skills',
+  tools: 'Tools & Technologies',
+};
+
+const SKILL_LOOKUP = new Map(
+  SKILL_TAXONOMY.flatMap((skill) => [skill.name, ...skill.aliases].map((term) => [term.toLowerCase(), skill] as const)),
+);
+
+const findSkill = (value: string) => SKILL_LOOKUP.get(value.trim().toLowerCase()) ?? null;
+
+const toSkillKey = (value: string) => (findSkill(value)?.name ?? value.trim()).toLowerCase();
+
+const getSkillTerms = (keyword: string) => {
+  const skill = findSkill(keyword);
+  return skill ? [skill.name, ...skill.aliases, ...skill.signals] : [keyword];
+};
+
+const mentionsSkill = (text: string, skill: SkillDefinition) => [skill.name, ...skill.aliases].some((term) => containsKeyword(text, term));
+
+const showsSkill = (text: string, skill: SkillDefinition) =>
+  mentionsSkill(text, skill) || skill.signals.some((term) => containsKeyword(text, term));
+
+const suggestSkillsFromDraft = (draft: ResumeDraft, limit = 12): SkillSuggestion[] => {
+  const projects = nonEmptyProjects(draft);
+  const sources = [
+    { label: 'a project tech stack', text: projects.flatMap((entry) => entry.techStack).join(', ') },
+    { label: 'your experience', text: nonEmptyExperience(draft).map((entry) => [entry.role, ...entry.bullets.map((bullet) => bullet.text)].join('\n')).join('\n') },
+    { label: 'a project description', text: projects.map((entry) => `${entry.title}\n${entry.description}`).join('\n') },
+    { label: 'your summary', text: draft.summary },
+  ];
+  const listed = new Set(skillItems(draft).map(toSkillKey));
+  const suggestions = new Map<string, SkillSuggestion>();
+
+  SKILL_TAXONOMY.forEach((skill) => {
+    if (listed.has(skill.name.toLowerCase())) return;
+    const source = sources.find((item) => showsSkill(item.text, skill));
+    if (source) suggestions.set(skill.name, { name: skill.name, category: skill.category, reason: `Mentioned in ${source.label}.` });
+  });
+
+  const known = [...listed, ...[...suggestions.keys()].map((name) => name.toLowerCase())];
+  known
+    .map((name) => findSkill(name))
+    .filter((skill): skill is SkillDefinition => skill !== null)
+    .forEach((skill) => {
+      skill.related.forEach((relatedName) => {
+        const related = findSkill(relatedName);
+        if (!related || listed.has(related.name.toLowerCase()) || suggestions.has(related.name)) return;
+        suggestions.set(related.name, { name: related.name, category: related.category, reason: `Often paired with ${skill.name}.` });
+      });
+    });
+
+  return [...suggestions.values()].slice(0, limit);
+};
+
+const JOB_STOPWORDS = new Set(
+  [
+    'about', 'above', 'across', 'after', 'also', 'ability', 'able', 'based', 'best', 'bonus', 'build', 'building', 'candidate', 'company',
+    'daily', 'degree', 'deliver', 'develop', 'developing', 'ensure', 'environment', 'equivalent', 'excellent', 'experience', 'experienced',
+    'field', 'from', 'good', 'great', 'have', 'help', 'high', 'highly', 'including', 'into', 'join', 'knowledge', 'like', 'looking',
+    'make', 'more', 'must', 'need', 'nice', 'opportunity', 'other', 'plus', 'position', 'preferred', 'proven', 'qualifications', 'related',
+    'required', 'requirements', 'responsibilities', 'role', 'should', 'skills', 'solid', 'strong', 'such', 'team', 'teams', 'that',
+    'their', 'them', 'they', 'this', 'through', 'understanding', 'using', 'well', 'what', 'when', 'which', 'while', 'will', 'with',
+    'within', 'work', 'working', 'world', 'year', 'years', 'your', 'who', 'where', 'want', 'were', 'than', 'then', 'there', 'these',
+    'those', 'very', 'each', 'every', 'some', 'most', 'only', 'over', 'under', 'both', 'being', 'been', 'does', 'doing',
+  ],
+);
+const JOB_PREFERRED_HEADING = /^[\s#*-]*(nice to have|preferred|bonus|good to have|pluses)\b/i;
+const JOB_REQUIRED_HEADING = /^[\s#*-]*(requirements|required|must have|qualifications|responsibilities|what you)/i;
+const JOB_PREFERRED_LINE = /\b(nice to have|preferred|bonus|a plus|good to have|optional)\b/i;
+const JOB_LOCATION_LABELS: Record<JobKeywordLocation, string> = {
+  summary: 'Summary',
+  experience: 'Experience',
+  projects: 'Projects',
+  skills: 'Skills',
+};
+const JOB_KEYWORD_SUGGESTIONS: Record<JobKeywordMatch['category'], string> = {
+  technical: 'Add it to Technical Skills, and name it in a project tech stack if you used it.',
+  tools: 'Add it to Tools & Technologies, and mention where you used it in an experience bullet.',
+  soft: 'Add it to Soft Skills, and show it in an experience bullet or your summary.',
+  keyword: 'Work it into your summary or an experience bullet where it is accurate.',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keywords that are also everyday English words only count when written exactly as the keyword.
+const CASE_SENSITIVE_KEYWORDS = new Set(['Go', 'JS', 'TS', 'ML']);
+
+const containsKeyword = (text: string, keyword: string) =>
+  new RegExp(`(^|[^\\w+#.])${escapeRegExp(keyword)}(?![\\w+#]|\\.\\w)`, CASE_SENSITIVE_KEYWORDS.has(keyword) ? '' : 'i').test(text);
+
+const extractJobKeywords = (jobDescription: string) => {
+  let inPreferredBlock = false;
+  const requiredLines: string[] = [];
+  const preferredLines: string[] = [];
+  jobDescription.split('\n').forEach((line) => {
+    if (line.trim().length < 60 && JOB_PREFERRED_HEADING.test(line)) inPreferredBlock = true;
+    else if (line.trim().length < 60 && JOB_REQUIRED_HEADING.test(line)) inPreferredBlock = false;
+    (inPreferredBlock || JOB_PREFERRED_LINE.test(line) ? preferredLines : requiredLines).push(line);
+  });
+  const requiredText = requiredLines.join('\n');
+  const importanceOf = (keyword: string) => (containsKeyword(requiredText, keyword) ? 'required' : 'preferred') as JobKeywordMatch['importance'];
+
+  const skills = SKILL_TAXONOMY.filter((skill) => mentionsSkill(jobDescription, skill)).map((skill) => ({
+    keyword: skill.name,
+    category: skill.category as JobKeywordMatch['category'],
+    importance: (mentionsSkill(requiredText, skill) ? 'required' : 'preferred') as JobKeywordMatch['importance'],
+  }));
+  const vocabularyWords = new Set(
+    SKILL_TAXONOMY.flatMap((skill) => [skill.name, ...skill.aliases]).flatMap((term) => term.toLowerCase().split(/\s+/)),
+  );
+  const counts = new Map<string, number>();
+  (jobDescription.toLowerCase().match(/[a-z][a-z-]{3,}/g) ?? [])
+    .filter((word) => !JOB_STOPWORDS.has(word) && !vocabularyWords.has(word))
+    .forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  const keywords = [...counts.entries()]
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 8)
+    .map(([word]) => ({ keyword: word, category: 'keyword' as const, importance: importanceOf(word) }));
+  return [...skills, ...keywords];
+};
+
+const computeJobMatch = (draft: ResumeDraft, jobDescription: string): JobMatchReport | null => {
+  if (!jobDescription.trim()) return null;
+  const keywords = extractJobKeywords(jobDescription);
+  if (!keywords.length) return null;
+  const sources: Record<JobKeywordLocation, string> = {
+    summary: draft.summary,
+    experience: nonEmptyExperience(draft).map((entry) => [entry.role, ...entry.bullets.map((bullet) => bullet.text)].join('\n')).join('\n'),
+    projects: nonEmptyProjects(draft).map((entry) => `${entry.title}\n${entry.description}\n${entry.techStack.join(', ')}`).join('\n'),
+    skills: skillItems(draft).join(', '),
+  };
+  const results = keywords.map((item) => ({
+    ...item,
+    foundIn: (Object.keys(sources) as JobKeywordLocation[]).filter((location) =>
+      getSkillTerms(item.keyword).some((term) => containsKeyword(sources[location], term))),
+    suggestion: JOB_KEYWORD_SUGGESTIONS[item.category],
+  }));
+  const weightOf = (item: JobKeywordMatch) => (item.importance === 'required' ? 2 : 1);
+  const total = results.reduce((sum, item) => sum + weightOf(item), 0);
+  const earned = results.filter((item) => item.foundIn.length > 0).reduce((sum, item) => sum + weightOf(item), 0);
+  return {
+    score: Math.round((earned / total) * 100),
+    matched: results.filter((item) => item.foundIn.length > 0),
+    missing: results.filter((item) => item.foundIn.length === 0).sort((a, b) => weightOf(b) - weightOf(a)),
+  };
+};
+
+type ResumeOutlineEntry = {
+  title: string;
+  subtitle: string;
+  date: string;
+  details: string[];
+  tags: string[];
+  links: { label: string; url: string }[];
+};
+
+type ResumeOutlineEntryKind =
+  | 'education'
+  | 'experience'
+  | 'projects'
+  | 'certifications'
+  | 'awards'
+  | 'volunteering'
+  | 'publications'
+  | 'custom';
+
+type ResumeOutline = {
+  name: string;
+  contact: string[];
+  summary: string;
+  education: ResumeOutlineEntry[];
+  experience: ResumeOutlineEntry[];
+  projects: ResumeOutlineEntry[];
+  skills: { label: string; items: string[] }[];
+  certifications: ResumeOutlineEntry[];
+  awards: ResumeOutlineEntry[];
+  languages: string[];
+  volunteering: ResumeOutlineEntry[];
+  publications: ResumeOutlineEntry[];
+  custom: { title: string; entries: ResumeOutlineEntry[] }[];
+  links: string[];
+};
+
+type ResumeTextOptions = {
+  template: ResumeTemplate;
+  accentColor: string;
+  sectionLayout: ResumeSectionLayout;
+  typography?: ResumeTypography;
+  pageSize?: PageSizeId;
+};
+
+type ResumeTextSerializer = {
+  document: (outline: ResumeOutline, sections: string[]) => string;
+  section: (title: string, lines: string[]) => string[];
+  paragraph: (text: string) => string[];
+  entry: (entry: ResumeOutlineEntry, kind: ResumeOutlineEntryKind) => string[];
+  skillGroup: (label: string, items: string[]) => string[];
+  link: (url: string) => string[];
+};
+
+type ResumeTextFormat = 'text' | 'markdown' | 'latex' | 'html';
+
+const toResumeOutline = (draft: ResumeDraft): ResumeOutline => ({
+  name: draft.name.trim(),
+  contact: [draft.email, draft.phone, draft.location].map((item) => item.trim()).filter(Boolean),
+  summary: draft.summary.trim(),
+  education: nonEmptyEducation(draft).map((entry) => ({
+    title: entry.school.trim(),
+    subtitle: entry.degree.trim(),
+    date: formatDateRange(entry.dates),
+    details: [],
+    tags: [],
+    links: [],
+  })),
+  experience: nonEmptyExperience(draft).map((entry) => ({
+    title: entry.company.trim(),
+    subtitle: entry.role.trim(),
+    date: formatDateRange(entry.dates),
+    details: entry.bullets.map((bullet) => bullet.text.trim()).filter(Boolean),
+    tags: [],
+    links: [],
+  })),
+  projects: nonEmptyProjects(draft).map((entry) => ({
+    title: entry.title.trim() || 'Project',
+    subtitle: '',
+    date: '',
+    details: entry.description.trim() ? [entry.description.trim()] : [],
+    tags: entry.techStack,
+    links: [
+      ...(entry.liveUrl.trim() ? [{ label: 'Live', url: entry.liveUrl.trim() }] : []),
+      ...(entry.githubUrl.trim() ? [{ label: 'GitHub', url: entry.githubUrl.trim() }] : []),
+    ],
+  })),
+  skills: [
+    { label: 'Technical Skills', items: draft.technicalSkills },
+    { label: 'Soft Skills', items: draft.softSkills },
+    { label: 'Tools & Technologies', items: draft.toolsTechnologies },
+  ].filter((group) => group.items.length > 0),
+  certifications: nonEmptyCertifications(draft).map((entry) => ({
+    title: entry.name.trim(),
+    subtitle: entry.issuer.trim(),
+    date: formatResumeDate(entry.date),
+    details: [],
+    tags: [],
+    links: entry.credentialUrl.trim() ? [{ label: 'Credential', url: entry.credentialUrl.trim() }] : [],
+  })),
+  awards: nonEmptyAwards(draft).map((entry) => ({
+    title: entry.title.trim(),
+    subtitle: entry.issuer.trim(),
+    date: formatResumeDate(entry.date),
+    details: entry.description.trim() ? [entry.description.trim()] : [],
+    tags: [],
+    links: [],
+  })),
+  languages: draft.languages
+    .filter((entry) => entry.language.trim())
+    .map((entry) => (entry.proficiency ? `${entry.language.trim()} (${entry.proficiency})` : entry.language.trim())),
+  volunteering: sortByDateRange(draft.volunteering.filter((entry) => hasText(entry.organization, entry.role, entry.description))).map((entry) => ({
+    title: entry.organization.trim(),
+    subtitle: entry.role.trim(),
+    date: formatDateRange(entry.dates),
+    details: entry.description.trim() ? [entry.description.trim()] : [],
+    tags: [],
+    links: [],
+  })),
+  publications: sortByResumeDate(draft.publications.filter((entry) => hasText(entry.title, entry.publisher))).map((entry) => ({
+      title: entry.title.trim(),
+      subtitle: entry.publisher.trim(),
+      date: formatResumeDate(entry.date),
+      details: [],
+      tags: [],
+      links: entry.url.trim() ? [{ label: 'Read', url: entry.url.trim() }] : [],
+    })),
+  custom: draft.customSections
+    .map((section) => ({
+      title: section.title.trim() || 'Additional Information',
+      entries: section.items
+        .filter((item) => hasText(item.title, item.subtitle, item.description))
+        .map((item) => ({
+          title: item.title.trim(),
+          subtitle: item.subtitle.trim(),
+          date: '',
+          details: item.description.trim() ? [item.description.trim()] : [],
+          tags: [],
+          links: [],
+        })),
+    }))
+    .filter((section) => section.entries.length > 0),
+  links: [draft.github.trim(), draft.linkedin.trim()].filter(Boolean),
+});
+
+const serializeResume = (draft: ResumeDraft, serializer: ResumeTextSerializer, layout: ResumeSectionLayout = createSectionLayout()) => {
+  const outline = toResumeOutline(draft);
+  const entrySection = (title: string, kind: ResumeOutlineEntryKind, entries: ResumeOutlineEntry[]) =>
+    entries.length ? serializer.section(title, entries.flatMap((entry) => serializer.entry(entry, kind))) : [];
+  const sections: Record<ResumeSectionId, string[]> = {
+    summary: outline.summary ? serializer.section('Summary', serializer.paragraph(outline.summary)) : [],
+    education: entrySection('Education', 'education', outline.education),
+    experience: entrySection('Experience', 'experience', outline.experience),
+    projects: entrySection('Projects', 'projects', outline.projects),
+    skills: outline.skills.length ? serializer.section('Skills', outline.skills.flatMap((group) => serializer.skillGroup(group.label, group.items))) : [],
+    certifications: entrySection('Certifications', 'certifications', outline.certifications),
+    awards: entrySection('Awards', 'awards', outline.awards),
+    languages: outline.languages.length ? serializer.section('Languages', serializer.paragraph(outline.languages.join(', '))) : [],
+    volunteering: entrySection('Volunteering', 'volunteering', outline.volunteering),
+    publications: entrySection('Publications', 'publications', outline.publications),
+    custom: outline.custom.flatMap((section) => entrySection(section.title, 'custom', section.entries)),
+    links: outline.links.length ? serializer.section('Links', outline.links.flatMap((url) => serializer.link(url))) : [],
+  };
+  return serializer.document(outline, getVisibleSections(layout).flatMap((id) => sections[id]));
+};
+
+const PLAIN_TEXT_SERIALIZER: ResumeTextSerializer = {
+  document: (outline, sections) =>
+    ['Name', outline.name || '-', '', 'Contact', outline.contact.join(' | ') || '-', '', ...sections].join('\n').trim(),
+  section: (title, lines) => [title, ...lines, ''],
+  paragraph: (text) => [text],
+  entry: (entry, kind) => [
+    `- ${[entry.title, entry.subtitle, entry.date].filter(Boolean).join(' | ')}`,
+    ...entry.details.map((detail) => (kind === 'experience' ? `  * ${detail}` : `  ${detail}`)),
+    ...(entry.tags.length ? [`  Tech Stack: ${entry.tags.join(', ')}`] : []),
+    ...entry.links.map((link) => `  ${link.label}: ${link.url}`),
+  ],
+  skillGroup: (label, items) => [`${label}: ${items.join(', ')}`],
+  link: (url) => [url],
+};
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+const escapeMarkdownUrl = (url: string) =>
+  url.replace(/[\s()<>\\]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+
+const MARKDOWN_SERIALIZER: ResumeTextSerializer = {
+  document: (outline, sections) =>
+    [`# ${escapeMarkdown(outline.name || 'Resume')}`, '', escapeMarkdown(outline.contact.join(' | ')), '', ...sections]
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  section: (title, lines) => [`## ${escapeMarkdown(title)}`, '', ...lines, ''],
+  paragraph: (text) => [escapeMarkdown(text), ''],
+  entry: (entry, kind) => [
+    `### ${escapeMarkdown(entry.title || entry.subtitle)}`,
+    ...([entry.title ? entry.subtitle : '', entry.date].some(Boolean)
+      ? [`*${escapeMarkdown([entry.title ? entry.subtitle : '', entry.date].filter(Boolean).join(' | '))}*`]
+      : []),
+    '',
+    ...entry.details.map((detail) => (kind === 'experience' ? `- ${escapeMarkdown(detail)}` : escapeMarkdown(detail))),
+    ...(entry.tags.length ? ['', `**Tech Stack:** ${escapeMarkdown(entry.tags.join(', '))}`] : []),
+    ...(entry.links.length ? ['', entry.links.map((link) => `[${escapeMarkdown(link.label)}](${escapeMarkdownUrl(link.url)})`).join(' | ')] : []),
+    '',
+  ],
+  skillGroup: (label, items) => [`- **${label}:** ${escapeMarkdown(items.join(', '))}`],
+  link: (url) => [`- [${escapeMarkdown(url)}](${escapeMarkdownUrl(url)})`],
+};
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  $: '\\$',
+  '#': '\\#',
+  _: '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+const escapeLatex = (text: string) => Array.from(text).map((char) => LATEX_ESCAPES[char] ?? char).join('');
+
+const latexHref = (url: string, label: string) => `\\href{${url.replace(/[%#\\]/g, (char) => `\\${char}`)}}{${escapeLatex(label)}}`;
+
+const createLatexSerializer = ({ template, accentColor, typography, pageSize }: ResumeTextOptions): ResumeTextSerializer => ({
+  document: (outline, sections) => {
+    const { latexStyle, print } = resolveResumeTemplate(template, typography);
+    const fontSize = Math.min(12, Math.max(10, Math.round(print.fontSize)));
+    const nameParts = (outline.name || 'Resume').split(/\s+/);
+    const lastName = nameParts.length > 1 ? nameParts.pop() ?? '' : '';
+    const [email, ...restContact] = outline.contact;
+    const hasEmail = Boolean(email && email.includes('@'));
+    const phone = (hasEmail ? restContact : outline.contact).find((item) => /^\+?[\d\s().-]{6,}$/.test(item));
+    const address = (hasEmail ? restContact : outline.contact).filter((item) => item !== phone);
+    return [
+      `\\documentclass[${fontSize}pt,${pageSize === 'letter' ? 'letterpaper' : 'a4paper'},${print.fontFamily === 'serif' ? 'roman' : 'sans'}]{moderncv}`,
+      `\\moderncvstyle{${latexStyle}}`,
+      '\\moderncvcolor{black}',
+      `\\definecolor{color1}{HTML}{${toHexColor(parseCssColor(accentColor))}}`,
+      '\\usepackage[utf8]{inputenc}',
+      '\\usepackage[scale=0.8]{geometry}',
+      '',
+      `\\name{${escapeLatex(nameParts.join(' '))}}{${escapeLatex(lastName)}}`,
+      ...(hasEmail ? [`\\email{${escapeLatex(email)}}`] : []),
+      ...(phone ? [`\\phone[mobile]{${escapeLatex(phone)}}`] : []),
+      ...(address.length ? [`\\address{${escapeLatex(address.join(', '))}}{}{}`] : []),
+      '',
+      '\\begin{document}',
+      '\\makecvtitle',
+      '',
+      ...sections,
+      '\\end{document}',
+    ].join('\n');
+  },
+  section: (title, lines) => [`\\section{${escapeLatex(title)}}`, ...lines, ''],
+  paragraph: (text) => [`\\cvitem{}{${escapeLatex(text)}}`],
+  entry: (entry, kind) => {
+    const details =
+      kind === 'experience' && entry.details.length
+        ? `\\begin{itemize}${entry.details.map((detail) => `\\item ${escapeLatex(detail)}`).join(' ')}\\end{itemize}`
+        : entry.details.map(escapeLatex).join(' \\newline{} ');
+    const links = entry.links.map((link) => latexHref(link.url, link.label)).join(' \\textbar{} ');
+    const body = [details, links].filter(Boolean).join(' \\newline{} ');
+    const heading = entry.subtitle || entry.title;
+    const subheading = entry.subtitle ? entry.title : entry.tags.join(', ');
+    return [`\\cventry{${escapeLatex(entry.date)}}{${escapeLatex(heading)}}{${escapeLatex(subheading)}}{}{}{${body}}`];
+  },
+  skillGroup: (label, items) => [`\\cvitem{${escapeLatex(label)}}{${escapeLatex(items.join(', '))}}`],
+  link: (url) => [`\\cvitem{}{${latexHref(url, url)}}`],
+});
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const createHtmlSerializer = ({ template, accentColor, typography }: ResumeTextOptions): ResumeTextSerializer => ({
+  document: (outline, sections) => {
+    const { htmlStyle, print } = resolveResumeTemplate(template, typography);
+    const contact = outline.contact
+      .map((item) => (item.includes('@') ? `<a href="mailto:${escapeHtml(item)}">${escapeHtml(item)}</a>` : escapeHtml(item)))
+      .join(' | ');
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '  <meta charset="utf-8" />',
+      `  <title>${escapeHtml(outline.name || 'Resume')}</title>`,
+      '  <style>',
+      `    :root { --accent: ${accentColor}; }`,
+      `    body { font-family: ${RESUME_FONT_STACKS[print.fontFamily]}; font-size: ${print.fontSize}pt; color: #1F1A17; max-width: 720px; margin: 32px auto; line-height: ${print.lineHeight}; }`,
+      `    h1, h2, h3 { font-family: ${RESUME_FONT_STACKS[print.headingFontFamily]}; color: var(--accent); margin: 0 0 8px; }`,
+      '    ul.tags { list-style: none; padding: 0; display: flex; flex-wrap: wrap; gap: 8px; }',
+      '    ul.tags li { border: 1px solid #1F1A17; padding: 2px 8px; }',
+      `    ${htmlStyle}`,
+      '  </style>',
+      '</head>',
+      '<body>',
+      '  <header>',
+      `    <h1>${escapeHtml(outline.name || 'Resume')}</h1>`,
+      ...(contact ? [`    <p>${contact}</p>`] : []),
+      '  </header>',
+      '  <main>',
+      ...sections.map((line) => `    ${line}`),
+      '  </main>',
+      '</body>',
+      '</html>',
+    ].join('\n');
+  },
+  section: (title, lines) => ['<section>', `  <h2>${escapeHtml(title)}</h2>`, ...lines.map((line) => `  ${line}`), '</section>'],
+  paragraph: (text) => [`<p>${escapeHtml(text)}</p>`],
+  entry: (entry, kind) => {
+    const meta = [entry.title ? entry.subtitle : '', entry.date].filter(Boolean).join(' | ');
+    return [
+      '<article>',
+      `  <h3>${escapeHtml(entry.title || entry.subtitle)}</h3>`,
+      ...(meta ? [`  <p>${escapeHtml(meta)}</p>`] : []),
+      ...(kind === 'experience' && entry.details.length
+        ? ['  <ul>', ...entry.details.map((detail) => `    <li>${escapeHtml(detail)}</li>`), '  </ul>']
+        : entry.details.map((detail) => `  <p>${escapeHtml(detail)}</p>`)),
+      ...(entry.tags.length ? ['  <ul class="tags">', ...entry.tags.map((tag) => `    <li>${escapeHtml(tag)}</li>`), '  </ul>'] : []),
+      ...(entry.links.length
+        ? [`  <p>${entry.links.map((link) => `<a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a>`).join(' | ')}</p>`]
+        : []),
+      '</article>',
+    ];
+  },
+  skillGroup: (label, items) => [`<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(items.join(', '))}</p>`],
+  link: (url) => [`<p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p>`],
+});
+
+const RESUME_TEXT_FORMATS: {
+  id: ResumeTextFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  createSerializer: (options: ResumeTextOptions) => ResumeTextSerializer;
+}[] = [
+  { id: 'text', label: 'Plain Text', extension: 'txt', mimeType: 'text/plain', createSerializer: () => PLAIN_TEXT_SERIALIZER },
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown', createSerializer: () => MARKDOWN_SERIALIZER },
+  { id: 'latex', label: 'LaTeX (moderncv)', extension: 'tex', mimeType: 'application/x-tex', createSerializer: createLatexSerializer },
+  { id: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html', createSerializer: createHtmlSerializer },
+];
+
+const toResumeText = (draft: ResumeDraft, format: ResumeTextFormat, options: ResumeTextOptions) => {
+  const spec = RESUME_TEXT_FORMATS.find((item) => item.id === format) ?? RESUME_TEXT_FORMATS[0];
+  return serializeResume(draft, spec.createSerializer(options), options.sectionLayout);
+};
+
+type JsonResumeImportResult = {
+  draft: ResumeDraft;
+  warnings: string[];
+};
+
+const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+const JSON_RESUME_SKILL_GROUPS = [
+  { field: 'technicalSkills', name: 'Technical Skills' },
+  { field: 'softSkills', name: 'Soft Skills' },
+  { field: 'toolsTechnologies', name: 'Tools & Technologies' },
+] as const;
+const JSON_RESUME_KNOWN_SECTIONS = [
+  '$schema',
+  'basics',
+  'work',
+  'education',
+  'projects',
+  'skills',
+  'certificates',
+  'awards',
+  'languages',
+  'volunteer',
+  'publications',
+  'meta',
+];
+
+const toJsonResumeDates = (range: DateRange) => {
+  const startDate = toIsoResumeDate(range.start);
+  const endDate = range.current ? '' : toIsoResumeDate(range.end);
+  return { ...(startDate ? { startDate } : {}), ...(endDate ? { endDate } : {}) };
+};
+
+const fromJsonResumeDates = (item: Record<string, unknown>): DateRange => {
+  const [start = createResumeDate()] = parseDateTokens(toSafeString(item.startDate));
+  const [end = createResumeDate()] = parseDateTokens(toSafeString(item.endDate));
+  return { start, end, current: hasResumeDate(start) && CURRENT_DATE_PATTERN.test(toSafeString(item.endDate)), raw: '' };
+};
+
+const toJsonResume = (draft: ResumeDraft) => {
+  const [city = '', ...region] = draft.location.split(',').map((item) => item.trim());
+  const profiles = [
+    draft.github.trim() ? { network: 'GitHub', url: draft.github.trim() } : null,
+    draft.linkedin.trim() ? { network: 'LinkedIn', url: draft.linkedin.trim() } : null,
+  ].filter(Boolean);
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: draft.name.trim(),
+      email: draft.email.trim(),
+      phone: draft.phone.trim(),
+      summary: draft.summary.trim(),
+      location: { city, region: region.join(', ') },
+      profiles,
+    },
+    work: nonEmptyExperience(draft).map((entry) => ({
+      name: entry.company.trim(),
+      position: entry.role.trim(),
+      ...toJsonResumeDates(entry.dates),
+      highlights: entry.bullets.map((bullet) => bullet.text.trim()).filter(Boolean),
+    })),
+    education: nonEmptyEducation(draft).map((entry) => ({
+      institution: entry.school.trim(),
+      studyType: entry.degree.trim(),
+      ...toJsonResumeDates(entry.dates),
+    })),
+    projects: nonEmptyProjects(draft).map((entry) => ({
+      name: entry.title.trim(),
+      description: entry.description.trim(),
+      keywords: entry.techStack,
+      ...(entry.liveUrl.trim() ? { url: entry.liveUrl.trim() } : {}),
+      ...(entry.githubUrl.trim() ? { githubUrl: entry.githubUrl.trim() } : {}),
+    })),
+    skills: JSON_RESUME_SKILL_GROUPS
+      .filter((group) => draft[group.field].length > 0)
+      .map((group) => ({ name: group.name, keywords: draft[group.field] })),
+    certificates: nonEmptyCertifications(draft).map((entry) => ({
+      name: entry.name.trim(),
+      issuer: entry.issuer.trim(),
+      ...(hasResumeDate(entry.date) ? { date: toIsoResumeDate(entry.date) } : {}),
+      ...(entry.credentialUrl.trim() ? { url: entry.credentialUrl.trim() } : {}),
+    })),
+    awards: nonEmptyAwards(draft).map((entry) => ({
+      title: entry.title.trim(),
+      awarder: entry.issuer.trim(),
+      ...(hasResumeDate(entry.date) ? { date: toIsoResumeDate(entry.date) } : {}),
+      summary: entry.description.trim(),
+    })),
+    languages: draft.languages
+      .filter((entry) => entry.language.trim())
+      .map((entry) => ({ language: entry.language.trim(), fluency: entry.proficiency })),
+    volunteer: draft.volunteering
+      .filter((entry) => hasText(entry.organization, entry.role, entry.description))
+      .map((entry) => ({
+        organization: entry.organization.trim(),
+        position: entry.role.trim(),
+        ...toJsonResumeDates(entry.dates),
+        summary: entry.description.trim(),
+      })),
+    publications: draft.publications
+      .filter((entry) => hasText(entry.title, entry.publisher))
+      .map((entry) => ({
+        name: entry.title.trim(),
+        publisher: entry.publisher.trim(),
+        ...(hasResumeDate(entry.date) ? { releaseDate: toIsoResumeDate(entry.date) } : {}),
+        ...(entry.url.trim() ? { url: entry.url.trim() } : {}),
+      })),
+    ...(draft.customSections.length ? { meta: { customSections: draft.customSections } } : {}),
+  };
+};
+
+const isGithubUrl = (value: string) => /^https?:\/\/(www\.)?github\.com\//i.test(value.trim());
+
+const fromJsonResume = (value: unknown): JsonResumeImportResult => {
+  if (!isRecord(value)) throw new Error('File is not a JSON Resume document.');
+  const hasKnownSection = JSON_RESUME_KNOWN_SECTIONS.slice(1, -1).some((section) => section in value);
+  if (!hasKnownSection) throw new Error('No JSON Resume sections (basics, work, education, projects, skills) found.');
+
+  const warnings: string[] = [];
+  const basics = isRecord(value.basics) ? value.basics : {};
+  const location = isRecord(basics.location) ? basics.location : {};
+  const profiles = toRecordArray(basics.profiles);
+  const findProfile = (network: string) => {
+    const profile = profiles.find((item) => toSafeString(item.network).toLowerCase() === network);
+    if (!profile) return '';
+    const username = toSafeString(profile.username).trim();
+    return toSafeString(profile.url).trim() || (username ? `https://${network}.com/${network === 'linkedin' ? 'in/' : ''}${username}` : '');
+  };
+
+  Object.keys(value)
+    .filter((key) => !JSON_RESUME_KNOWN_SECTIONS.includes(key))
+    .forEach((key) => {
+      const count = Array.isArray(value[key]) ? ` (${(value[key] as unknown[]).length} entries)` : '';
+      warnings.push(`Section "${key}"${count} has no matching resume field and was skipped.`);
+    });
+  ['label', 'image', 'url'].forEach((key) => {
+    if (toSafeString(basics[key]).trim()) warnings.push(`basics.${key} has no matching resume field and was skipped.`);
+  });
+  profiles
+    .filter((item) => !['github', 'linkedin'].includes(toSafeString(item.network).toLowerCase()))
+    .forEach((item) => warnings.push(`Profile "${toSafeString(item.network) || 'unnamed'}" was skipped (only GitHub and LinkedIn are supported).`));
+
+  const experience = toRecordArray(value.work).map((item) => {
+    const highlights = Array.isArray(item.highlights) ? item.highlights.map((line) => toSafeString(line).trim()).filter(Boolean) : [];
+    const summary = toSafeString(item.summary).trim();
+    if (highlights.length && summary) warnings.push(`The summary for "${toSafeString(item.name)}" was skipped because it has highlights.`);
+    return {
+      id: crypto.randomUUID(),
+      company: toSafeString(item.name) || toSafeString(item.company),
+      role: toSafeString(item.position),
+      dates: fromJsonResumeDates(item),
+      bullets: (highlights.length ? highlights : [summary]).map((text) => createExperienceBullet(text)),
+    };
+  });
+
+  const education = toRecordArray(value.education).map((item) => ({
+    id: crypto.randomUUID(),
+    school: toSafeString(item.institution),
+    degree: [toSafeString(item.studyType), toSafeString(item.area)].filter((part) => part.trim()).join(' '),
+    dates: fromJsonResumeDates(item),
+  }));
+
+  const projects = toRecordArray(value.projects).map((item) => {
+    const url = toSafeString(item.url).trim();
+    const githubUrl = toSafeString(item.githubUrl).trim() || (isGithubUrl(url) ? url : '');
+    const description = toSafeString(item.description);
+    if (description.length > 200) warnings.push(`Description of "${toSafeString(item.name)}" was shortened to 200 characters.`);
+    return {
+      id: crypto.randomUUID(),
+      title: toSafeString(item.name),
+      description: description.slice(0, 200),
+      techStack: Array.isArray(item.keywords) ? item.keywords.map((tech) => toSafeString(tech).trim()).filter(Boolean) : [],
+      liveUrl: url && url !== githubUrl ? url : '',
+      githubUrl,
+      hidden: false,
+    };
+  });
+
+  const toSingleDate = (value: unknown) => parseDateTokens(toSafeString(value))[0] ?? createResumeDate();
+  const certifications = toRecordArray(value.certificates).map((item) => ({
+    id: crypto.randomUUID(),
+    name: toSafeString(item.name),
+    issuer: toSafeString(item.issuer),
+    date: toSingleDate(item.date),
+    credentialUrl: toSafeString(item.url),
+  }));
+  const awards = toRecordArray(value.awards).map((item) => ({
+    id: crypto.randomUUID(),
+    title: toSafeString(item.title),
+    issuer: toSafeString(item.awarder),
+    date: toSingleDate(item.date),
+    description: toSafeString(item.summary),
+  }));
+  const languages = toRecordArray(value.languages).map((item) => {
+    const fluency = toSafeString(item.fluency).trim();
+    const proficiency = toLanguageProficiency(fluency);
+    if (fluency && !proficiency) warnings.push(`Fluency "${fluency}" for ${toSafeString(item.language) || 'a language'} was not recognised and was left blank.`);
+    return { id: crypto.randomUUID(), language: toSafeString(item.language), proficiency };
+  });
+  const volunteering = toRecordArray(value.volunteer).map((item) => ({
+    id: crypto.randomUUID(),
+    organization: toSafeString(item.organization),
+    role: toSafeString(item.position),
+    dates: fromJsonResumeDates(item),
+    description: [toSafeString(item.summary), ...(Array.isArray(item.highlights) ? item.highlights.map(toSafeString) : [])]
+      .filter((part) => part.trim())
+      .join(' '),
+  }));
+  const publications = toRecordArray(value.publications).map((item) => ({
+    id: crypto.randomUUID(),
+    title: toSafeString(item.name),
+    publisher: toSafeString(item.publisher),
+    date: toSingleDate(item.releaseDate),
+    url: toSafeString(item.url),
+  }));
+  const customSections = normalizeResumeDraft({ customSections: isRecord(value.meta) ? value.meta.customSections : [] }).customSections;
+
+  const skillBuckets: Record<(typeof JSON_RESUME_SKILL_GROUPS)[number]['field'], string[]> = {
+    technicalSkills: [],
+    softSkills: [],
+    toolsTechnologies: [],
+  };
+  toRecordArray(value.skills).forEach((item) => {
+    const name = toSafeString(item.name).trim();
+    const keywords = Array.isArray(item.keywords) ? item.keywords.map((keyword) => toSafeString(keyword).trim()).filter(Boolean) : [];
+    const bucket = /soft/i.test(name) ? 'softSkills' : /tool/i.test(name) ? 'toolsTechnologies' : 'technicalSkills';
+    const items = keywords.length ? keywords : [name];
+    items.filter(Boolean).forEach((skill) => {
+      if (!skillBuckets[bucket].some((existing) => existing.toLowerCase() === skill.toLowerCase())) skillBuckets[bucket].push(skill);
+    });
+  });
+
+  return {
+    draft: {
+      name: toSafeString(basics.name),
+      email: toSafeString(basics.email),
+      phone: toSafeString(basics.phone),
+      location: toSafeString(location.address) || [location.city, location.region, location.countryCode].map(toSafeString).filter((part) => part.trim()).join(', '),
+      summary: toSafeString(basics.summary),
+      education: education.length ? education : [createEducationEntry()],
+      experience: experience.length ? experience : [createExperienceEntry()],
+      projects: projects.length ? projects : [createProjectEntry()],
+      ...skillBuckets,
+      certifications,
+      awards,
+      languages,
+      volunteering,
+      publications,
+      customSections,
+      github: findProfile('github'),
+      linkedin: findProfile('linkedin'),
+    },
+    warnings,
+  };
+};
+
+type ImportedSectionId = 'contact' | 'summary' | 'education' | 'experience' | 'projects' | 'skills';
+
+type ResumeTextImport = {
+  draft: ResumeDraft;
+  sections: ImportedSectionId[];
+};
+
+const IMPORTED_SECTION_LABELS: Record<ImportedSectionId, string> = {
+  contact: 'Contact Details',
+  summary: 'Summary',
+  education: 'Education',
+  experience: 'Experience',
+  projects: 'Projects',
+  skills: 'Skills',
+};
+const IMPORTED_SECTION_FIELDS: Record<ImportedSectionId, (keyof ResumeDraft)[]> = {
+  contact: ['name', 'email', 'phone', 'location', 'github', 'linkedin'],
+  summary: ['summary'],
+  education: ['education'],
+  experience: ['experience'],
+  projects: ['projects'],
+  skills: ['technicalSkills', 'softSkills', 'toolsTechnologies'],
+};
+const RESUME_IMPORT_HEADINGS: { id: Exclude<ImportedSectionId, 'contact'>; pattern: RegExp }[] = [
+  { id: 'summary', pattern: /^(professional |career )?(summary|profile|objective|about( me)?)$/ },
+  { id: 'education', pattern: /^(education(al)?( background| details)?|academics?|academic background|qualifications)$/ },
+  { id: 'experience', pattern: /^((work|professional|relevant) )?(experience|employment( history)?|work history|internships?)$/ },
+  { id: 'projects', pattern: /^((personal|academic|key|selected) )?projects$/ },
+  { id: 'skills', pattern: /^((technical|core|key) )?(skills|competencies)( (&|and) (tools|technologies))?$|^technologies$/ },
+];
+const MONTH_PATTERN = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?\\s+';
+const DATE_RANGE_PATTERN = new RegExp(
+  `(${MONTH_PATTERN})?(19|20)\\d{2}(\\s*(-|–|—|to)\\s*((${MONTH_PATTERN})?(19|20)\\d{2}|present|current|now))?`,
+  'i',
+);
+const BULLET_PATTERN = /^[•●▪◦‣*·-]\s*/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+const URL_PATTERN = /(https?:\/\/|www\.)[^\s|,]+|\b(linkedin|github)\.com\/[^\s|,]+/i;
+const SCHOOL_PATTERN = /\b(university|college|institute|school|academy|iit|nit|polytechnic)\b/i;
+const DEGREE_PATTERN = /\b(b\.?\s?tech|m\.?\s?tech|bachelor|master|b\.?s\.?c?|m\.?s\.?c?|b\.?e|m\.?e|ph\.?d|diploma|mba|bca|mca|degree|hsc|ssc|class (x|xii|10|12))\b/i;
+const ROLE_PATTERN = /\b(engineer|developer|intern|manager|analyst|designer|lead|consultant|scientist|architect|specialist|associate|trainee)\b/i;
+const TECH_LINE_PATTERN = /^(tech( stack)?|technologies|built with|stack|tools)\s*:\s*(.+)$/i;
+
+const ensureUrlProtocol = (url: string) => (/^https?:\/\//i.test(url) ? url : `https://${url}`);
+
+const findUrls = (text: string) =>
+  (text.match(new RegExp(URL_PATTERN, 'gi')) ?? []).map((url) => ensureUrlProtocol(url.replace(/[.)]+$/, '')));
+
+const splitListItems = (text: string) =>
+  text
+    .split(/,|\||•|·|;|\//)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const detectImportHeading = (line: string) => {
+  if (!line || line.length > 40) return null;
+  const normalized = line.toLowerCase().replace(/^[#*\s]+|[:\-–—_=*#|\s]+$/g, '').replace(/\s+/g, ' ');
+  return RESUME_IMPORT_HEADINGS.find((heading) => heading.pattern.test(normalized))?.id ?? null;
+};
+
+const chunkImportedEntries = (lines: string[]) => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let lastWasBullet = false;
+  lines.forEach((line) => {
+    if (!line) {
+      if (current.length) chunks.push(current);
+      current = [];
+      lastWasBullet = false;
+      return;
+    }
+    const isBullet = BULLET_PATTERN.test(line);
+    if (!isBullet && lastWasBullet && /^[a-z(]/.test(line)) {
+      current[current.length - 1] += ` ${line}`;
+      return;
+    }
+    if (!isBullet && lastWasBullet && current.length) {
+      chunks.push(current);
+      current = [];
+    }
+    current.push(line);
+    lastWasBullet = isBullet;
+  });
+  if (current.length) chunks.push(current);
+  return chunks;
+};
+
+const splitEntryParts = (text: string) =>
+  text
+    .split(/\s*(?:\||—|–|\s-\s)\s*/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+const stripBullet = (line: string) => line.replace(BULLET_PATTERN, '').trim();
+
+const parseImportedEducation = (chunk: string[]): EducationEntry => {
+  const text = chunk.map(stripBullet).join(' | ');
+  const year = text.match(DATE_RANGE_PATTERN)?.[0] ?? '';
+  const parts = splitEntryParts(text.replace(year, ''));
+  const school = parts.find((part) => SCHOOL_PATTERN.test(part)) ?? parts[0] ?? '';
+  const degree = parts.find((part) => part !== school && DEGREE_PATTERN.test(part)) ?? parts.find((part) => part !== school) ?? '';
+  return { id: crypto.randomUUID(), school, degree, dates: parseDateRange(year) };
+};
+
+const parseImportedExperience = (chunk: string[]): ExperienceEntry => {
+  const firstBullet = chunk.findIndex((line) => BULLET_PATTERN.test(line));
+  const headerLines = firstBullet === -1 ? chunk.slice(0, Math.min(chunk.length, 2)) : chunk.slice(0, firstBullet);
+  const detailLines = firstBullet === -1 ? chunk.slice(headerLines.length) : chunk.slice(firstBullet);
+  const headerText = headerLines.join(' | ');
+  const duration = headerText.match(DATE_RANGE_PATTERN)?.[0] ?? '';
+  const atMatch = headerLines[0]?.replace(duration, '').match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  let [company = '', role = ''] = atMatch ? [atMatch[2], atMatch[1]] : splitEntryParts(headerText.replace(duration, ''));
+  if (!atMatch && ROLE_PATTERN.test(company) && !ROLE_PATTERN.test(role)) [company, role] = [role, company];
+  return {
+    id: crypto.randomUUID(),
+    company: splitEntryParts(company)[0] ?? '',
+    role: splitEntryParts(role)[0] ?? '',
+    dates: parseDateRange(duration),
+    bullets: (firstBullet === -1 ? [detailLines.join(' ')] : detailLines.map(stripBullet)).map((text) => createExperienceBullet(text)),
+  };
+};
+
+const parseImportedProject = (chunk: string[]): ProjectEntry => {
+  const urls = chunk.flatMap(findUrls);
+  const githubUrl = urls.find((url) => isGithubUrl(url)) ?? '';
+  const liveUrl = urls.find((url) => !isGithubUrl(url)) ?? '';
+  const cleaned = chunk.map((line) => stripBullet(line.replace(new RegExp(URL_PATTERN, 'gi'), '')).replace(/\s*\|\s*$/, '').trim()).filter(Boolean);
+  const techLine = cleaned.find((line) => TECH_LINE_PATTERN.test(line));
+  const [titleLine = '', ...rest] = cleaned.filter((line) => line !== techLine);
+  const [title = '', ...titleExtras] = splitEntryParts(titleLine.replace(DATE_RANGE_PATTERN, ''));
+  const inlineTech = titleExtras.find((part) => part.includes(','));
+  return {
+    id: crypto.randomUUID(),
+    title,
+    description: rest.join(' ').slice(0, 200),
+    techStack: splitListItems(techLine?.match(TECH_LINE_PATTERN)?.[3] ?? inlineTech ?? ''),
+    liveUrl,
+    githubUrl,
+    hidden: false,
+  };
+};
+
+const parseImportedSkills = (lines: string[]) => {
+  const buckets: Pick<ResumeDraft, 'technicalSkills' | 'softSkills' | 'toolsTechnologies'> = {
+    technicalSkills: [],
+    softSkills: [],
+    toolsTechnologies: [],
+  };
+  lines.filter(Boolean).forEach((line) => {
+    const labelled = stripBullet(line).match(/^([^:]{2,40}):\s*(.+)$/);
+    const label = labelled?.[1] ?? '';
+    const bucket = /soft|interpersonal/i.test(label) ? 'softSkills' : /tool|platform/i.test(label) ? 'toolsTechnologies' : 'technicalSkills';
+    splitListItems(labelled?.[2] ?? stripBullet(line)).forEach((skill) => {
+      if (!buckets[bucket].some((existing) => existing.toLowerCase() === skill.toLowerCase())) buckets[bucket].push(skill);
+    });
+  });
+  return buckets;
+};
+
+const parseResumeText = (text: string): ResumeTextImport => {
+  const lines = text.replace(/\r/g, '').split('\n').map((line) => line.replace(/\s+/g, ' ').trim());
+  const header: string[] = [];
+  const sectionLines: Partial<Record<ImportedSectionId, string[]>> = {};
+  let current: ImportedSectionId | null = null;
+  lines.forEach((line) => {
+    const heading = detectImportHeading(line);
+    if (heading) {
+      current = heading;
+      sectionLines[heading] = sectionLines[heading] ?? [];
+      return;
+    }
+    if (current) sectionLines[current]?.push(line);
+    else header.push(line);
+  });
+
+  const allUrls = findUrls(text);
+  const headerSegments = header.flatMap((line) => line.split(/\s*[|•·]\s*/)).filter(Boolean);
+  const isContactSegment = (segment: string) => EMAIL_PATTERN.test(segment) || URL_PATTERN.test(segment) || (segment.match(/\d/g) ?? []).length >= 7;
+  const draft: ResumeDraft = {
+    ...createEmptyResumeDraft(),
+    name: headerSegments.find((segment) => /[a-z]/i.test(segment) && segment.split(' ').length <= 5 && !isContactSegment(segment)) ?? '',
+    email: text.match(EMAIL_PATTERN)?.[0] ?? '',
+    phone: headerSegments.find((segment) => (segment.match(/\d/g) ?? []).length >= 10 && /^[+\d\s().-]+$/.test(segment)) ?? '',
+    location: headerSegments.find((segment) => /^[a-z .'-]+,\s*[a-z .'-]+$/i.test(segment)) ?? '',
+    linkedin: allUrls.find((url) => /linkedin\.com\/in\//i.test(url)) ?? '',
+    github: allUrls.find((url) => /github\.com\/[\w-]+\/?$/i.test(url)) ?? '',
+  };
+
+  if (sectionLines.summary) draft.summary = sectionLines.summary.filter(Boolean).join(' ');
+  if (sectionLines.education) draft.education = chunkImportedEntries(sectionLines.education).map(parseImportedEducation);
+  if (sectionLines.experience) draft.experience = chunkImportedEntries(sectionLines.experience).map(parseImportedExperience);
+  if (sectionLines.projects) draft.projects = chunkImportedEntries(sectionLines.projects).map(parseImportedProject);
+  if (sectionLines.skills) Object.assign(draft, parseImportedSkills(sectionLines.skills));
+
+  const hasContact = IMPORTED_SECTION_FIELDS.contact.some((field) => Boolean(draft[field]));
+  const sections = (Object.keys(IMPORTED_SECTION_LABELS) as ImportedSectionId[]).filter(
+    (section) => (section === 'contact' ? hasContact : Boolean(sectionLines[section]?.some(Boolean))),
+  );
+  (['education', 'experience', 'projects'] as const).forEach((field) => {
+    if (!draft[field].length) Object.assign(draft, { [field]: createEmptyResumeDraft()[field] });
+  });
+  return { draft, sections };
+};
+
+const applyImportedSections = (current: ResumeDraft, imported: ResumeDraft, sections: ImportedSectionId[]) =>
+  sections.reduce(
+    (next, section) => ({
+      ...next,
+      ...Object.fromEntries(IMPORTED_SECTION_FIELDS[section].map((field) => [field, imported[field]])),
+    }),
+    current,
+  );
+
+const describeImportedSection = (draft: ResumeDraft, section: ImportedSectionId) => {
+  const outline = toResumeOutline(draft);
+  if (section === 'contact') return [outline.name, ...outline.contact, ...outline.links].filter(Boolean);
+  if (section === 'summary') return [outline.summary];
+  if (section === 'skills') return outline.skills.flatMap((group) => PLAIN_TEXT_SERIALIZER.skillGroup(group.label, group.items));
+  return outline[section].flatMap((entry) => PLAIN_TEXT_SERIALIZER.entry(entry, section));
+};
+
+const extractPdfText = async (file: File) => {
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+    const content = await (await pdf.getPage(pageNumber)).getTextContent();
+    pages.push(content.items.map((item) => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : '')).join(''));
+  }
+  return pages.join('\n');
+};
+
+const toFileSlug = (draft: ResumeDraft) =>
+  draft.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'resume';
+
+const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+type RgbColor = [number, number, number];
+type PdfFont = 'regular' | 'bold';
+type PdfRun = { text: string; font: PdfFont; color: RgbColor; url?: string; heading?: boolean };
+type PdfFontFamilies = Pick<ResumeTemplatePrintRules, 'fontFamily' | 'headingFontFamily'>;
+type PdfLine = {
+  runs: PdfRun[];
+  size: number;
+  leading: number;
+  indent: number;
+  fonts?: PdfFontFamilies;
+  centerWidth?: number;
+  rule?: { color: RgbColor; width: number };
+};
+type PdfBlock = { lines: PdfLine[]; spaceBefore: number };
+type PdfColumn = { x: number; width: number; top: number; bottom: number };
+type PdfPageContent = { commands: string[]; links: { rect: number[]; url: string }[] };
+type PdfBand = { x: number; width: number };
+
+const PDF_COLUMN_GAP = 24;
+const PDF_SIDEBAR_PADDING = 20;
+const PDF_BASE_FONTS: Record<ResumeFontFamily, Record<PdfFont, string>> = {
+  sans: { regular: 'Helvetica', bold: 'Helvetica-Bold' },
+  serif: { regular: 'Times-Roman', bold: 'Times-Bold' },
+};
+const PDF_TEXT_COLOR: RgbColor = [31, 26, 23];
+const PDF_SIDEBAR_TEXT_COLOR: RgbColor = [255, 255, 255];
+// Advance widths for ASCII 32-126 from the standard 14 font metrics, in 1/1000 em.
+const PDF_FONT_WIDTHS: Record<ResumeFontFamily, Record<PdfFont, number[]>> = {
+  sans: {
+    regular: [278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584],
+    bold: [278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584],
+  },
+  serif: {
+    regular: [250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541],
+    bold: [250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500, 930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778, 611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500, 333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500, 556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520],
+  },
+};
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '\u20ac': 0x80,
+  '\u2026': 0x85,
+  '\u2018': 0x91,
+  '\u2019': 0x92,
+  '\u201c': 0x93,
+  '\u201d': 0x94,
+  '\u2022': 0x95,
+  '\u2013': 0x96,
+  '\u2014': 0x97,
+  '\u2122': 0x99,
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number): RgbColor => {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const amplitude = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round((l - amplitude * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255);
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const HSL_COLOR_PATTERN = /^hsl\(\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)%\s*,\s*(\d+(?:\.\d+)?)%\s*\)$/i;
+
+const parseHslColor = (color: string) => {
+  const match = color.trim().match(HSL_COLOR_PATTERN);
+  if (!match) return null;
+  const [hue, saturation, lightness] = match.slice(1).map(Number);
+  if (![hue, saturation, lightness].every(Number.isFinite) || hue > 360 || saturation > 100 || lightness > 100) return null;
+  return { hue, saturation, lightness };
+};
+
+const isCssColor = (color: string) => HEX_COLOR_PATTERN.test(color.trim()) || parseHslColor(color) !== null;
+
+const parseCssColor = (color: string): RgbColor => {
+  const value = color.trim();
+  const hex = value.match(HEX_COLOR_PATTERN);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map((digit) => digit + digit).join('') : hex[1];
+    return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16)) as RgbColor;
+  }
+  const hsl = parseHslColor(value);
+  if (hsl) return hslToRgb(hsl.hue, hsl.saturation, hsl.lightness);
+  return [0, 0, 0];
+};
+
+const getRelativeLuminance = (color: RgbColor) => {
+  const [red, green, blue] = color.map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+};
+
+const getContrastRatio = (first: RgbColor, second: RgbColor) => {
+  const [lighter, darker] = [getRelativeLuminance(first), getRelativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+const PAGE_COLOR: RgbColor = [255, 255, 255];
+
+const getAccentContrastWarning = (accentColor: string) => {
+  const ratio = getContrastRatio(parseCssColor(accentColor), PAGE_COLOR);
+  const label = `${Math.floor(ratio * 10) / 10}:1`;
+  if (ratio < 3) {
+    return `Low contrast: this accent is ${label} against the white page. WCAG AA needs at least 3:1 for headings and 4.5:1 for smaller text, so pick a darker color.`;
+  }
+  if (ratio < 4.5) {
+    return `This accent is ${label} against the white page. That passes WCAG AA for large headings but not the 4.5:1 needed for links and small text.`;
+  }
+  return '';
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return char;
+      return '?';
+    })
+    .join('');
+
+const getPdfRunFamily = (run: PdfRun, fonts: PdfFontFamilies = { fontFamily: 'sans', headingFontFamily: 'sans' }) =>
+  run.heading ? fonts.headingFontFamily : fonts.fontFamily;
+
+const measurePdfText = (text: string, font: PdfFont, size: number, family: ResumeFontFamily = 'sans') =>
+  (Array.from(toWinAnsi(text)).reduce((sum, char) => sum + (PDF_FONT_WIDTHS[family][font][char.charCodeAt(0) - 32] ?? 556), 0) * size) / 1000;
+
+const splitLongPdfWord = (word: string, font: PdfFont, size: number, maxWidth: number, family: ResumeFontFamily) => {
+  if (measurePdfText(word.trimEnd(), font, size, family) <= maxWidth) return [word];
+  const pieces: string[] = [];
+  let piece = '';
+  Array.from(word).forEach((char) => {
+    if (piece && measurePdfText(piece + char, font, size, family) > maxWidth) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += char;
+  });
+  if (piece) pieces.push(piece);
+  return pieces;
+};
+
+const wrapPdfRuns = (runs: PdfRun[], size: number, maxWidth: number, fonts: PdfFontFamilies) => {
+  const lines: PdfRun[][] = [];
+  let current: PdfRun[] = [];
+  let width = 0;
+  runs.forEach((run) => {
+    const family = getPdfRunFamily(run, fonts);
+    run.text
+      .replace(/\s+/g, ' ')
+      .split(/(?<= )/)
+      .flatMap((word) => splitLongPdfWord(word, run.font, size, maxWidth, family))
+      .forEach((word) => {
+        if (current.length && width + measurePdfText(word.trimEnd(), run.font, size, family) > maxWidth) {
+          lines.push(current);
+          current = [];
+          width = 0;
+          if (!word.trim()) return;
+        }
+        const last = current[current.length - 1];
+        if (last && last.font === run.font && last.url === run.url && last.color === run.color) last.text += word;
+        else current.push({ ...run, text: word });
+        width += measurePdfText(word, run.font, size, family);
+      });
+  });
+  if (current.length) lines.push(current);
+  return lines;
+};
+
+const pdfParagraph = (runs: PdfRun[], size: number, width: number, fonts: PdfFontFamilies, indent = 0, lineHeight = 1.4): PdfLine[] =>
+  wrapPdfRuns(runs, size, width - indent, fonts).map((line) => ({ runs: line, size, leading: size * lineHeight, indent, fonts }));
+
+const pdfNumber = (value: number) => String(Number(value.toFixed(2)));
+
+const pdfColor = (color: RgbColor) => color.map((channel) => pdfNumber(channel / 255)).join(' ');
+
+const escapePdfString = (text: string) => toWinAnsi(text).replace(/[\\()]/g, (char) => `\\${char}`);
+
+const drawPdfLine = (page: PdfPageContent, line: PdfLine, x: number, bottom: number) => {
+  if (line.rule) {
+    const y = pdfNumber(bottom + line.leading / 2);
+    page.commands.push(`${pdfColor(line.rule.color)} RG 0.75 w ${pdfNumber(x)} ${y} m ${pdfNumber(x + line.rule.width)} ${y} l S`);
+    return;
+  }
+  const baseline = bottom + (line.leading - line.size) / 2 + line.size * 0.22;
+  const measureRun = (run: PdfRun, text = run.text) => measurePdfText(text, run.font, line.size, getPdfRunFamily(run, line.fonts));
+  const textWidth = line.runs.reduce((sum, run, index) => sum + measureRun(run, index === line.runs.length - 1 ? run.text.trimEnd() : run.text), 0);
+  let cursor = x + line.indent + (line.centerWidth ? Math.max(0, (line.centerWidth - line.indent - textWidth) / 2) : 0);
+  line.runs.forEach((run) => {
+    const font = run.heading ? 'F3' : run.font === 'bold' ? 'F2' : 'F1';
+    page.commands.push(
+      `BT /${font} ${pdfNumber(line.size)} Tf ${pdfColor(run.color)} rg ${pdfNumber(cursor)} ${pdfNumber(baseline)} Td (${escapePdfString(run.text)}) Tj ET`,
+    );
+    if (run.url) {
+      const width = measureRun(run, run.text.trimEnd());
+      page.links.push({ rect: [cursor, baseline - line.size * 0.25, cursor + width, baseline + line.size * 0.85], url: run.url });
+    }
+    cursor += measureRun(run);
+  });
+};
+
+const placePdfBlocks = (blocks: PdfBlock[], column: PdfColumn, pages: PdfPageContent[], firstTop = column.top) => {
+  const blockPages: number[] = [];
+  const pageAt = (index: number) => {
+    while (pages.length <= index) pages.push({ commands: [], links: [] });
+    return pages[index];
+  };
+  let pageIndex = 0;
+  let y = firstTop;
+  blocks.forEach((block) => {
+    const height = block.lines.reduce((sum, line) => sum + line.leading, 0);
+    if (y < column.top) y -= block.spaceBefore;
+    if (y < column.top && y - height < column.bottom && height <= column.top - column.bottom) {
+      pageIndex += 1;
+      y = column.top;
+    }
+    block.lines.forEach((line) => {
+      if (y - line.leading < column.bottom) {
+        pageIndex += 1;
+        y = column.top;
+      }
+      y -= line.leading;
+      drawPdfLine(pageAt(pageIndex), line, column.x, y);
+    });
+    blockPages.push(pageIndex);
+  });
+  pageAt(pageIndex);
+  return blockPages;
+};
+
+const getPdfBlocksHeight = (blocks: PdfBlock[]) =>
+  blocks.reduce((sum, block) => sum + block.lines.reduce((total, line) => total + line.leading, 0), 0);
+
+const getPdfColumns = (definition: ResumeTemplateDefinition, pageSize: PageSize) => {
+  const { margin } = definition.print;
+  const { width, height } = pageSize;
+  const column = (x: number, columnWidth: number): PdfColumn => ({ x, width: columnWidth, top: height - margin, bottom: margin });
+  const full = column(margin, width - margin * 2);
+  const sidebar = definition.regions.sidebar;
+  if (!sidebar) return { full, main: full, side: null, band: null };
+  const isLeft = sidebar.side === 'left';
+  if (sidebar.filled) {
+    const bandWidth = width * sidebar.width;
+    return {
+      full,
+      main: column(isLeft ? bandWidth + PDF_COLUMN_GAP : margin, width - bandWidth - PDF_COLUMN_GAP - margin),
+      side: column((isLeft ? 0 : width - bandWidth) + PDF_SIDEBAR_PADDING, bandWidth - PDF_SIDEBAR_PADDING * 2),
+      band: { x: isLeft ? 0 : width - bandWidth, width: bandWidth },
+    };
+  }
+  const sideWidth = full.width * sidebar.width;
+  return {
+    full,
+    main: column(isLeft ? margin + sideWidth + PDF_COLUMN_GAP : margin, full.width - sideWidth - PDF_COLUMN_GAP),
+    side: column(isLeft ? margin : width - margin - sideWidth, sideWidth),
+    band: null,
+  };
+};
+
+const fillPdfBand = (pages: PdfPageContent[], band: PdfBand | null, color: RgbColor, pageSize: PageSize) => {
+  if (!band) return;
+  pages.forEach((page) =>
+    page.commands.unshift(`${pdfColor(color)} rg ${pdfNumber(band.x)} 0 ${pdfNumber(band.width)} ${pdfNumber(pageSize.height)} re f`));
+};
+
+const buildPdfDocument = (
+  pages: PdfPageContent[],
+  title: string,
+  pageSize: PageSize,
+  fontFamily: ResumeFontFamily = 'sans',
+  headingFontFamily = fontFamily,
+) => {
+  const objects: string[] = [];
+  const addObject = (body: string) => objects.push(body);
+  const catalogId = addObject('');
+  const pagesId = addObject('');
+  const infoId = addObject(`<< /Title (${escapePdfString(title)}) /Producer (AI Resume Builder) >>`);
+  const regularId = addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_BASE_FONTS[fontFamily].regular} /Encoding /WinAnsiEncoding >>`);
+  const boldId = addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_BASE_FONTS[fontFamily].bold} /Encoding /WinAnsiEncoding >>`);
+  const headingId = addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_BASE_FONTS[headingFontFamily].bold} /Encoding /WinAnsiEncoding >>`);
+  const pageIds = pages.map((page) => {
+    const content = page.commands.join('\n');
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    const annotationIds = page.links.map((link) =>
+      addObject(
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(pdfNumber).join(' ')}] /Border [0 0 0] /A << /S /URI /URI (${escapePdfString(link.url)}) >> >>`,
+      ),
+    );
+    const annotations = annotationIds.length ? ` /Annots [${annotationIds.map((id) => `${id} 0 R`).join(' ')}]` : '';
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${pageSize.width} ${pageSize.height}] /Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R /F3 ${headingId} 0 R >> >> /Contents ${contentId} 0 R${annotations} >>`,
+    );
+  });
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let index = 0; index < output.length; index += 1) bytes[index] = output.charCodeAt(index) & 0xff;
+  return bytes;
+};
+
+const layoutResumePdf = (
+  draft: ResumeDraft,
+  template: ResumeTemplate,
+  accentColor: string,
+  layout: ResumeSectionLayout,
+  typography: ResumeTypography,
+  pageSize: PageSizeId,
+) => {
+  const accent = parseCssColor(accentColor);
+  const definition = resolveResumeTemplate(template, typography);
+  const { print, regions } = definition;
+  const page = toPageSizeChoice(pageSize);
+  const columns = getPdfColumns(definition, page);
+  const smallSize = print.fontSize - 1;
+  const outline = toResumeOutline(draft);
+  const contactLine = [draft.email, draft.phone, draft.location].map((item) => item.trim()).filter(Boolean).join(' | ');
+  const paragraph = (runs: PdfRun[], size: number, width: number, indent = 0) => pdfParagraph(runs, size, width, print, indent, print.lineHeight);
+
+  const section = (title: string, entries: PdfLine[][], column: PdfColumn, headingColor: RgbColor): PdfBlock[] => {
+    if (!entries.length) return [];
+    const heading = paragraph(
+      [{ text: print.uppercaseHeadings ? title.toUpperCase() : title, font: 'bold', color: headingColor, heading: true }],
+      print.headingSize,
+      column.width,
+    );
+    if (print.headingRule) heading.push({ runs: [], size: 0, leading: 6, indent: 0, rule: { color: headingColor, width: column.width } });
+    return entries.map((lines, index) => ({
+      lines: index === 0 ? [...heading, ...lines] : lines,
+      spaceBefore: index === 0 ? print.sectionGap : print.entryGap,
+    }));
+  };
+
+  const buildHeader = (column: PdfColumn, headingColor: RgbColor, color: RgbColor): PdfBlock[] => {
+    const align = (lines: PdfLine[]) => (print.centeredHeader ? lines.map((line) => ({ ...line, centerWidth: column.width })) : lines);
+    return [
+      {
+        lines: [
+          ...(draft.name.trim() ? align(paragraph([{ text: draft.name.trim(), font: 'bold', color: headingColor, heading: true }], print.nameSize, column.width)) : []),
+          ...(contactLine ? align(paragraph([{ text: contactLine, font: 'regular', color }], print.fontSize, column.width)) : []),
+        ],
+        spaceBefore: 0,
+      },
+    ].filter((block) => block.lines.length > 0);
+  };
+
+  const buildSections = (column: PdfColumn, headingColor: RgbColor, color: RgbColor) => {
+    const body = (text: string, font: PdfFont = 'regular', url?: string): PdfRun => ({ text, font, color, url });
+    const joinParts = (parts: string[]) => parts.map((item) => item.trim()).filter(Boolean).join(' | ');
+    const entrySection = (title: string, entries: ResumeOutlineEntry[]) =>
+      section(
+        title,
+        entries.map((entry) => [
+          ...paragraph([body(joinParts([entry.title, entry.subtitle, entry.date]), 'bold')], print.fontSize, column.width),
+          ...entry.details.flatMap((detail) => paragraph([body(detail)], print.fontSize, column.width)),
+          ...(entry.links.length
+            ? paragraph(
+              entry.links.flatMap((link, index) => [
+                ...(index ? [body('  ')] : []),
+                body(`[${link.label}]`, 'regular', isValidUrl(link.url) ? link.url : undefined),
+              ]),
+              smallSize,
+              column.width,
+            )
+            : []),
+        ]),
+        column,
+        headingColor,
+      );
+    return {
+      summary: section('Summary', draft.summary.trim() ? [paragraph([body(draft.summary.trim())], print.fontSize, column.width)] : [], column, headingColor),
+      education: section(
+        'Education',
+        nonEmptyEducation(draft).map((entry) => paragraph([body(joinParts([entry.school, entry.degree, formatDateRange(entry.dates)]))], print.fontSize, column.width)),
+        column,
+        headingColor,
+      ),
+      experience: section(
+        'Experience',
+        nonEmptyExperience(draft).map((entry) => [
+          ...paragraph([body(joinParts([entry.company, entry.role, formatDateRange(entry.dates)]), 'bold')], print.fontSize, column.width),
+          ...entry.bullets
+            .filter((bullet) => bullet.text.trim())
+            .flatMap((bullet) => paragraph([body(`\u2022 ${bullet.text.trim()}`)], print.fontSize, column.width, 8)),
+        ]),
+        column,
+        headingColor,
+      ),
+      projects: section(
+        'Projects',
+        nonEmptyProjects(draft).map((entry) => [
+          ...paragraph([body(entry.title.trim() || 'Project', 'bold')], print.fontSize, column.width),
+          ...(entry.description.trim() ? paragraph([body(entry.description.trim())], print.fontSize, column.width) : []),
+          ...(entry.techStack.length ? paragraph([body('Tech Stack: ', 'bold'), body(entry.techStack.join(', '))], smallSize, column.width) : []),
+          ...((entry.liveUrl.trim() || entry.githubUrl.trim())
+            ? paragraph(
+              [
+                ...(entry.liveUrl.trim() ? [body('[Live]', 'regular', entry.liveUrl.trim()), body('  ')] : []),
+                ...(entry.githubUrl.trim() ? [body('[GitHub]', 'regular', entry.githubUrl.trim())] : []),
+              ],
+              smallSize,
+              column.width,
+            )
+            : []),
+        ]),
+        column,
+        headingColor,
+      ),
+      skills: section(
+        'Skills',
+        [
+          ['Technical Skills', draft.technicalSkills],
+          ['Soft Skills', draft.softSkills],
+          ['Tools & Technologies', draft.toolsTechnologies],
+        ]
+          .filter(([, skills]) => skills.length > 0)
+          .map(([label, skills]) => paragraph([body(`${label}: `, 'bold'), body((skills as string[]).join(', '))], print.fontSize, column.width)),
+        column,
+        headingColor,
+      ),
+      links: section(
+        'Links',
+        [draft.github.trim(), draft.linkedin.trim()]
+          .filter(Boolean)
+          .map((url) => paragraph([body(url, 'regular', isValidUrl(url) ? url : undefined)], print.fontSize, column.width)),
+        column,
+        headingColor,
+      ),
+      certifications: entrySection('Certifications', outline.certifications),
+      awards: entrySection('Awards', outline.awards),
+      languages: section(
+        'Languages',
+        outline.languages.length ? [paragraph([body(outline.languages.join(', '))], print.fontSize, column.width)] : [],
+        column,
+        headingColor,
+      ),
+      volunteering: entrySection('Volunteering', outline.volunteering),
+      publications: entrySection('Publications', outline.publications),
+      custom: outline.custom.flatMap((item) => entrySection(item.title, item.entries)),
+    };
+  };
+
+  const pages: PdfPageContent[] = [];
+  const overflowSections = new Set<ResumeSectionId>();
+  const placeSections = (
+    leading: PdfBlock[],
+    ids: ResumeSectionId[],
+    blocks: Record<ResumeSectionId, PdfBlock[]>,
+    column: PdfColumn,
+    firstTop = column.top,
+  ) => {
+    const owners = [...leading.map(() => null), ...ids.flatMap((id) => blocks[id].map(() => id))];
+    placePdfBlocks([...leading, ...ids.flatMap((id) => blocks[id])], column, pages, firstTop).forEach((pageIndex, index) => {
+      const owner = owners[index];
+      if (owner && pageIndex > 0) overflowSections.add(owner);
+    });
+  };
+  const sections = getTemplateSections(layout, definition);
+  const main = buildSections(columns.main, accent, PDF_TEXT_COLOR);
+  if (!columns.side) {
+    placeSections(buildHeader(columns.main, accent, PDF_TEXT_COLOR), sections.main, main, columns.main);
+  } else {
+    const sideColor = columns.band ? PDF_SIDEBAR_TEXT_COLOR : PDF_TEXT_COLOR;
+    const side = buildSections(columns.side, columns.band ? sideColor : accent, sideColor);
+    let firstTop = columns.main.top;
+    if (regions.header === 'top') {
+      const header = buildHeader(columns.full, accent, PDF_TEXT_COLOR);
+      placePdfBlocks(header, columns.full, pages);
+      firstTop -= getPdfBlocksHeight(header);
+    }
+    const sideHeader = regions.header === 'sidebar' ? buildHeader(columns.side, sideColor, sideColor) : [];
+    placeSections(sideHeader, sections.sidebar, side, columns.side, firstTop);
+    placeSections([], sections.main, main, columns.main, firstTop);
+    fillPdfBand(pages, columns.band, accent, page);
+  }
+
+  return { pages, overflowSections: layout.order.filter((id) => overflowSections.has(id)) };
+};
+
+const createResumePdf = (
+  draft: ResumeDraft,
+  template: ResumeTemplate,
+  accentColor: string,
+  layout: ResumeSectionLayout = createSectionLayout(),
+  typography: ResumeTypography = DEFAULT_TYPOGRAPHY,
+  pageSize: PageSizeId = 'a4',
+) => {
+  const { print } = resolveResumeTemplate(template, typography);
+  const { pages } = layoutResumePdf(draft, template, accentColor, layout, typography, pageSize);
+  return buildPdfDocument(pages, draft.name.trim() || 'Resume', toPageSizeChoice(pageSize), print.fontFamily, print.headingFontFamily);
+};
 
-  lines.push('Name');
-  lines.push(draft.name.trim() || '-');
-  lines.push('');
+const MIN_FIT_FONT_SIZE = 9;
 
-  lines.push('Contact');
-  lines.push(contact || '-');
-  lines.push('');
+type OnePageFit = {
+  typography: ResumeTypography;
+  step: number;
+  exhausted: boolean;
+  pageCount: number;
+  overflowSections: ResumeSectionId[];
+};
 
-  if (draft.summary.trim()) {
-    lines.push('Summary');
-    lines.push(draft.summary.trim());
-    lines.push('');
+// Starts at minStep so the preview can push past settings that fit the PDF but not the on-screen pages.
+const fitResumeToOnePage = (
+  draft: ResumeDraft,
+  template: ResumeTemplate,
+  layout: ResumeSectionLayout,
+  typography: ResumeTypography,
+  pageSize: PageSizeId,
+  minStep = 0,
+): OnePageFit => {
+  const baseSize = typography.fontSize ?? getResumeTemplate(template).print.fontSize;
+  const steps: Partial<ResumeTypography>[] = [
+    {},
+    { lineSpacing: 'tight' },
+    { marginDensity: 'narrow' },
+    ...FONT_SIZE_OPTIONS.filter((size) => size < baseSize && size >= MIN_FIT_FONT_SIZE)
+      .reverse()
+      .map((fontSize) => ({ fontSize })),
+  ];
+  let candidate = typography;
+  let stepIndex = 0;
+  let pageCount = 0;
+  let overflowSections: ResumeSectionId[] = [];
+  for (const [index, step] of steps.entries()) {
+    candidate = { ...candidate, ...step };
+    stepIndex = index;
+    if (index < minStep && index < steps.length - 1) continue;
+    // Colors never change the layout, so any accent works here.
+    const result = layoutResumePdf(draft, template, '#000000', layout, candidate, pageSize);
+    pageCount = result.pages.length;
+    overflowSections = result.overflowSections;
+    if (pageCount <= 1) break;
   }
+  return { typography: candidate, step: stepIndex, exhausted: stepIndex === steps.length - 1, pageCount, overflowSections };
+};
 
-  if (education.length) {
-    lines.push('Education');
-    education.forEach((entry) => {
-      lines.push(`- ${[entry.school, entry.degree, entry.year].filter((item) => item.trim()).join(' | ')}`);
-    });
-    lines.push('');
+const describeOnePageFit = (fit: OnePageFit, typography: ResumeTypography, preview: PreviewLayout | null) => {
+  const settings = [
+    fit.typography.fontSize ? `${fit.typography.fontSize} pt text` : 'template text size',
+    `${toLineSpacingChoice(fit.typography.lineSpacing).label.toLowerCase()} line spacing`,
+    `${toMarginDensityChoice(fit.typography.marginDensity).label.toLowerCase()} margins`,
+  ].join(', ');
+  const pageCount = Math.max(fit.pageCount, preview?.pageCount ?? 0);
+  if (pageCount > 1 && !fit.exhausted) return 'Fitting to one page...';
+  if (pageCount > 1) {
+    const overflow = new Set([...fit.overflowSections, ...(preview?.overflowSections ?? [])]);
+    const sections = RESUME_SECTIONS.filter((section) => overflow.has(section.id)).map((section) => section.label);
+    return [
+      `Still ${countLabel(pageCount, 'page')} at the smallest readable settings (${settings}).`,
+      sections.length ? `Spilling onto page 2: ${sections.join(', ')}. Shorten or hide these sections to fit.` : '',
+    ].filter(Boolean).join(' ');
   }
+  return JSON.stringify(fit.typography) === JSON.stringify(typography) ? 'Already fits on one page.' : `Fitted to one page with ${settings}.`;
+};
 
-  if (experience.length) {
-    lines.push('Experience');
-    experience.forEach((entry) => {
-      lines.push(`- ${[entry.company, entry.role, entry.duration].filter((item) => item.trim()).join(' | ')}`);
-      if (entry.bullet.trim()) lines.push(`  ${entry.bullet.trim()}`);
-    });
-    lines.push('');
-  }
+const createCoverLetterPdf = (
+  draft: ResumeDraft,
+  letter: CoverLetter,
+  template: ResumeTemplate,
+  accentColor: string,
+  typography: ResumeTypography = DEFAULT_TYPOGRAPHY,
+  pageSize: PageSizeId = 'a4',
+) => {
+  const accent = parseCssColor(accentColor);
+  const definition = resolveResumeTemplate(template, typography);
+  const { print } = definition;
+  const page = toPageSizeChoice(pageSize);
+  const columns = getPdfColumns(definition, page);
+  const sideColumn = definition.regions.header === 'sidebar' ? columns.side : null;
+  const parts = getCoverLetterParts(draft, letter);
+  const text = (value: string, color: RgbColor, column: PdfColumn, size = print.fontSize, font: PdfFont = 'regular', indent = 0) =>
+    pdfParagraph([{ text: value, font, color }], size, column.width, print, indent, print.lineHeight);
+
+  const header = (column: PdfColumn, headingColor: RgbColor, color: RgbColor): PdfBlock[] => {
+    const align = (lines: PdfLine[]) => (print.centeredHeader && !sideColumn ? lines.map((line) => ({ ...line, centerWidth: column.width })) : lines);
+    return [
+      {
+        lines: [
+          ...(parts.name
+            ? align(pdfParagraph([{ text: parts.name, font: 'bold', color: headingColor, heading: true }], print.nameSize, column.width, print, 0, print.lineHeight))
+            : []),
+          ...(parts.contact ? align(text(parts.contact, color, column)) : []),
+          ...(print.headingRule && !sideColumn ? [{ runs: [], size: 0, leading: 6, indent: 0, rule: { color: headingColor, width: column.width } }] : []),
+        ],
+        spaceBefore: 0,
+      },
+    ].filter((block) => block.lines.length > 0);
+  };
 
-  if (projects.length) {
-    lines.push('Projects');
-    projects.forEach((entry) => {
-      lines.push(`- ${entry.title.trim() || 'Project'}`);
-      if (entry.description.trim()) lines.push(`  ${entry.description.trim()}`);
-      if (entry.techStack.length) lines.push(`  Tech Stack: ${entry.techStack.join(', ')}`);
-      if (entry.liveUrl.trim()) lines.push(`  Live: ${entry.liveUrl.trim()}`);
-      if (entry.githubUrl.trim()) lines.push(`  GitHub: ${entry.githubUrl.trim()}`);
-    });
-    lines.push('');
+  const letterBlocks = (column: PdfColumn): PdfBlock[] =>
+    [
+      { lines: text(parts.date, PDF_TEXT_COLOR, column), spaceBefore: 18 },
+      { lines: parts.recipient.flatMap((line) => text(line.text, PDF_TEXT_COLOR, column)), spaceBefore: 12 },
+      { lines: text(parts.salutation, PDF_TEXT_COLOR, column), spaceBefore: 12 },
+      ...parts.blocks.map((block) => ({
+        lines:
+          block.kind === 'list'
+            ? block.items.flatMap((item) => text(`\u2022 ${item}`, PDF_TEXT_COLOR, column, print.fontSize, 'regular', 8))
+            : text(block.text, PDF_TEXT_COLOR, column),
+        spaceBefore: 10,
+      })),
+      { lines: [...text(parts.signOff, PDF_TEXT_COLOR, column), ...(parts.name ? text(parts.name, accent, column, print.fontSize, 'bold') : [])], spaceBefore: 14 },
+    ].filter((block) => block.lines.length > 0);
+
+  const pages: PdfPageContent[] = [];
+  if (sideColumn) {
+    const sideColor = columns.band ? PDF_SIDEBAR_TEXT_COLOR : accent;
+    placePdfBlocks(header(sideColumn, sideColor, columns.band ? sideColor : PDF_TEXT_COLOR), sideColumn, pages);
+    placePdfBlocks(letterBlocks(columns.main), columns.main, pages);
+    fillPdfBand(pages, columns.band, accent, page);
+  } else {
+    placePdfBlocks([...header(columns.full, accent, PDF_TEXT_COLOR), ...letterBlocks(columns.full)], columns.full, pages);
   }
 
-  if (skills.length) {
-    lines.push('Skills');
-    if (draft.technicalSkills.length) lines.push(`Technical Skills: ${draft.technicalSkills.join(', ')}`);
-    if (draft.softSkills.length) lines.push(`Soft Skills: ${draft.softSkills.join(', ')}`);
-    if (draft.toolsTechnologies.length) lines.push(`Tools & Technologies: ${draft.toolsTechnologies.join(', ')}`);
-    lines.push('');
-  }
+  return buildPdfDocument(pages, `${parts.name || 'Cover Letter'} - Cover Letter`, page, print.fontFamily, print.headingFontFamily);
+};
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  return value >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  bytes.forEach((byte) => {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZipArchive = (files: { name: string; content: string }[]) => {
+  const encoder = new TextEncoder();
+  const entries = files.map((file) => ({ name: encoder.encode(file.name), data: encoder.encode(file.content) }));
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  const dosDate = (1 << 5) | 1;
+  let offset = 0;
+  const central: { entry: (typeof entries)[number]; crc: number; offset: number }[] = [];
+
+  entries.forEach((entry) => {
+    const crc = crc32(entry.data);
+    central.push({ entry, crc, offset });
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 12, dosDate, true);
+    view.setUint32(offset + 14, crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    bytes.set(entry.name, offset + 30);
+    bytes.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  });
+
+  const centralOffset = offset;
+  central.forEach(({ entry, crc, offset: localOffset }) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 14, dosDate, true);
+    view.setUint32(offset + 16, crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    view.setUint32(offset + 42, localOffset, true);
+    bytes.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  return bytes;
+};
+
+type DocxRunOptions = { bold?: boolean; color?: string; size?: number };
+
+const WORD_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter((char) => char.charCodeAt(0) >= 32 || char === '\t' || char === '\n' || char === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toHexColor = (color: RgbColor) => color.map((channel) => channel.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const docxRun = (text: string, options: DocxRunOptions = {}) => {
+  const properties = [
+    options.bold ? '<w:b/>' : '',
+    options.color ? `<w:color w:val="${options.color}"/>` : '',
+    options.size ? `<w:sz w:val="${options.size}"/>` : '',
+  ].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const docxParagraph = (content: string, style?: string, extraProperties = '') =>
+  `<w:p>${style || extraProperties ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProperties}</w:pPr>` : ''}${content}</w:p>`;
+
+const DOCX_FONTS: Record<ResumeFontFamily, string> = { sans: 'Calibri', serif: 'Cambria' };
+
+const createResumeDocx = (
+  draft: ResumeDraft,
+  template: ResumeTemplate,
+  accentColor: string,
+  layout: ResumeSectionLayout = createSectionLayout(),
+  typography: ResumeTypography = DEFAULT_TYPOGRAPHY,
+  pageSize: PageSizeId = 'a4',
+) => {
+  const accent = toHexColor(parseCssColor(accentColor));
+  const page = toPageSizeChoice(pageSize);
+  const pageWidth = Math.round(page.width * 20);
+  const pageHeight = Math.round(page.height * 20);
+  const definition = resolveResumeTemplate(template, typography);
+  const { print, regions } = definition;
+  const hyperlinks: string[] = [];
+  const contactLine = [draft.email, draft.phone, draft.location].map((item) => item.trim()).filter(Boolean).join(' | ');
+  const joinParts = (parts: string[]) => parts.map((item) => item.trim()).filter(Boolean).join(' | ');
+  const outline = toResumeOutline(draft);
+
+  const buildSections = (color?: string) => {
+    const run = (text: string, options: DocxRunOptions = {}) => docxRun(text, { color, ...options });
+    const hyperlink = (label: string, url: string) => {
+      if (!isValidUrl(url)) return run(label);
+      hyperlinks.push(url);
+      return `<w:hyperlink r:id="rIdLink${hyperlinks.length}" w:history="1"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/>${color ? `<w:color w:val="${color}"/>` : ''}</w:rPr><w:t xml:space="preserve">${escapeXml(label)}</w:t></w:r></w:hyperlink>`;
+    };
+    const heading = (title: string) => docxParagraph(run(title), 'Heading1');
+    const section = (title: string, paragraphs: string[]) => (paragraphs.length ? [heading(title), ...paragraphs].join('') : '');
+    const entrySection = (title: string, entries: ResumeOutlineEntry[]) =>
+      section(
+        title,
+        entries.flatMap((entry) => [
+          docxParagraph(run(joinParts([entry.title, entry.subtitle, entry.date]), { bold: true }), undefined, '<w:keepNext/>'),
+          ...entry.details.map((detail) => docxParagraph(run(detail))),
+          entry.links.length ? docxParagraph(entry.links.map((link) => hyperlink(link.label, link.url)).join(run(' | '))) : '',
+        ]),
+      );
+
+    return {
+      header: [
+        draft.name.trim() ? docxParagraph(run(draft.name.trim()), 'Title') : '',
+        contactLine ? docxParagraph(run(contactLine), undefined, print.centeredHeader ? '<w:jc w:val="center"/>' : '') : '',
+      ].join(''),
+      summary: section('Summary', draft.summary.trim() ? [docxParagraph(run(draft.summary.trim()))] : []),
+      education: section(
+        'Education',
+        nonEmptyEducation(draft).map((entry) => docxParagraph(run(joinParts([entry.school, entry.degree, formatDateRange(entry.dates)])))),
+      ),
+      experience: section(
+        'Experience',
+        nonEmptyExperience(draft).flatMap((entry) => [
+          docxParagraph(run(joinParts([entry.company, entry.role, formatDateRange(entry.dates)]), { bold: true }), undefined, '<w:keepNext/>'),
+          ...entry.bullets.filter((bullet) => bullet.text.trim()).map((bullet) => docxParagraph(run(bullet.text.trim()), 'ListBullet')),
+        ]),
+      ),
+      projects: section(
+        'Projects',
+        nonEmptyProjects(draft).flatMap((entry) => [
+          docxParagraph(run(entry.title.trim() || 'Project', { bold: true }), undefined, '<w:keepNext/>'),
+          entry.description.trim() ? docxParagraph(run(entry.description.trim())) : '',
+          entry.techStack.length ? docxParagraph(`${run('Tech Stack: ', { bold: true })}${run(entry.techStack.join(', '))}`) : '',
+          entry.liveUrl.trim() || entry.githubUrl.trim()
+            ? docxParagraph(
+              [
+                entry.liveUrl.trim() ? hyperlink('Live', entry.liveUrl.trim()) : '',
+                entry.liveUrl.trim() && entry.githubUrl.trim() ? run(' | ') : '',
+                entry.githubUrl.trim() ? hyperlink('GitHub', entry.githubUrl.trim()) : '',
+              ].join(''),
+            )
+            : '',
+        ]),
+      ),
+      skills: section(
+        'Skills',
+        (
+          [
+            ['Technical Skills', draft.technicalSkills],
+            ['Soft Skills', draft.softSkills],
+            ['Tools & Technologies', draft.toolsTechnologies],
+          ] as const
+        )
+          .filter(([, skills]) => skills.length > 0)
+          .map(([label, skills]) => docxParagraph(`${run(`${label}: `, { bold: true })}${run(skills.join(', '))}`)),
+      ),
+      links: section(
+        'Links',
+        [draft.github.trim(), draft.linkedin.trim()].filter(Boolean).map((url) => docxParagraph(hyperlink(url, url))),
+      ),
+      certifications: entrySection('Certifications', outline.certifications),
+      awards: entrySection('Awards', outline.awards),
+      languages: section('Languages', outline.languages.length ? [docxParagraph(run(outline.languages.join(', ')))] : []),
+      volunteering: entrySection('Volunteering', outline.volunteering),
+      publications: entrySection('Publications', outline.publications),
+      custom: outline.custom.map((item) => entrySection(item.title, item.entries)).join(''),
+    };
+  };
 
-  if (draft.github.trim() || draft.linkedin.trim()) {
-    lines.push('Links');
-    if (draft.github.trim()) lines.push(draft.github.trim());
-    if (draft.linkedin.trim()) lines.push(draft.linkedin.trim());
+  let body: string;
+  const pageMargin = Math.round(print.margin * 20);
+  const tableWidth = pageWidth - pageMargin * 2;
+  const sections = getTemplateSections(layout, definition);
+  const main = buildSections();
+  if (regions.sidebar) {
+    const { filled, side: sidebarSide, width } = regions.sidebar;
+    const side = buildSections(filled ? 'FFFFFF' : undefined);
+    const sideWidth = Math.round(tableWidth * width);
+    const sideCell = (regions.header === 'sidebar' ? side.header : '') + sections.sidebar.map((id) => side[id]).join('') || docxParagraph('');
+    const mainCell = sections.main.map((id) => main[id]).join('') || docxParagraph('');
+    const cells = [
+      `<w:tc><w:tcPr><w:tcW w:w="${sideWidth}" w:type="dxa"/>${filled ? `<w:shd w:val="clear" w:color="auto" w:fill="${accent}"/>` : ''}</w:tcPr>${sideCell}</w:tc>`,
+      `<w:tc><w:tcPr><w:tcW w:w="${tableWidth - sideWidth}" w:type="dxa"/></w:tcPr>${mainCell}</w:tc>`,
+    ];
+    const columnWidths = [sideWidth, tableWidth - sideWidth];
+    if (sidebarSide === 'right') {
+      cells.reverse();
+      columnWidths.reverse();
+    }
+    body = [
+      regions.header === 'top' ? main.header : '',
+      '<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/>',
+      '<w:tblCellMar><w:left w:w="180" w:type="dxa"/><w:right w:w="180" w:type="dxa"/></w:tblCellMar></w:tblPr>',
+      `<w:tblGrid>${columnWidths.map((columnWidth) => `<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid><w:tr>`,
+      ...cells,
+      '</w:tr></w:tbl>',
+      docxParagraph(''),
+    ].join('');
+  } else {
+    body = main.header + sections.main.map((id) => main[id]).join('');
   }
 
-  return lines.join('\n').trim();
+  const headingBorder = print.headingRule ? `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${accent}"/></w:pBdr>` : '';
+  const headingSpacing = `<w:spacing w:before="${Math.round(print.sectionGap * 20)}" w:after="80"/>`;
+  const font = DOCX_FONTS[print.fontFamily];
+  const headingFont = DOCX_FONTS[print.headingFontFamily];
+  const headingFonts = `<w:rFonts w:ascii="${headingFont}" w:hAnsi="${headingFont}" w:cs="${headingFont}"/>`;
+  const styles = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:styles ${WORD_NAMESPACES}>`,
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/><w:sz w:val="${Math.round(print.fontSize * 2)}"/><w:color w:val="1F1A17"/></w:rPr></w:rPrDefault>`,
+    `<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="${Math.round(print.lineHeight * 190)}" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`,
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>',
+    `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>${print.centeredHeader ? '<w:pPr><w:jc w:val="center"/></w:pPr>' : ''}<w:rPr>${headingFonts}<w:b/><w:color w:val="${accent}"/><w:sz w:val="${Math.round(print.nameSize * 2)}"/></w:rPr></w:style>`,
+    `<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/>${headingBorder}${headingSpacing}<w:outlineLvl w:val="0"/></w:pPr><w:rPr>${headingFonts}<w:b/>${print.uppercaseHeadings ? '<w:caps/>' : ''}<w:color w:val="${accent}"/><w:sz w:val="${Math.round(print.headingSize * 2)}"/></w:rPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr></w:style>',
+    `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="${accent}"/><w:u w:val="single"/></w:rPr></w:style>`,
+    '</w:styles>',
+  ].join('');
+  const numbering = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:numbering ${WORD_NAMESPACES}>`,
+    '<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/>',
+    '<w:pPr><w:ind w:left="360" w:hanging="240"/></w:pPr></w:lvl></w:abstractNum>',
+    '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>',
+    '</w:numbering>',
+  ].join('');
+  const document = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:document ${WORD_NAMESPACES}><w:body>${body}`,
+    `<w:sectPr><w:pgSz w:w="${pageWidth}" w:h="${pageHeight}"/><w:pgMar w:top="${pageMargin}" w:right="${pageMargin}" w:bottom="${pageMargin}" w:left="${pageMargin}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`,
+    '</w:body></w:document>',
+  ].join('');
+  const documentRelationships = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    '<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>',
+    ...hyperlinks.map(
+      (url, index) =>
+        `<Relationship Id="rIdLink${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`,
+    ),
+    '</Relationships>',
+  ].join('');
+
+  return createZipArchive([
+    {
+      name: '[Content_Types].xml',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+        '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>',
+        '</Types>',
+      ].join(''),
+    },
+    {
+      name: '_rels/.rels',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>',
+        '</Relationships>',
+      ].join(''),
+    },
+    { name: 'word/document.xml', content: document },
+    { name: 'word/styles.xml', content: styles },
+    { name: 'word/numbering.xml', content: numbering },
+    { name: 'word/_rels/document.xml.rels', content: documentRelationships },
+  ]);
+};
+
+type UndoHistory<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  groupKey: string | null;
+  groupedAt: number;
 };
 
+const UNDO_GROUP_WINDOW_MS = 1000;
+const UNDO_HISTORY_LIMIT = 100;
+
+function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState<UndoHistory<T>>({ past: [], present: initial, future: [], groupKey: null, groupedAt: 0 });
+
+  const setPresent = useCallback((update: T | ((prev: T) => T), groupKey: string | null = null) => {
+    const now = Date.now();
+    setHistory((prev) => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(prev.present) : update;
+      if (Object.is(next, prev.present)) return prev;
+      const merge = groupKey !== null && groupKey === prev.groupKey && now - prev.groupedAt < UNDO_GROUP_WINDOW_MS;
+      return {
+        past: merge ? prev.past : [...prev.past, prev.present].slice(-UNDO_HISTORY_LIMIT),
+        present: next,
+        future: [],
+        groupKey,
+        groupedAt: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (!prev.past.length) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        groupKey: null,
+        groupedAt: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (!prev.future.length) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        groupKey: null,
+        groupedAt: 0,
+      };
+    });
+  }, []);
+
+  return [
+    history.present,
+    setPresent,
+    { undo, redo, canUndo: history.past.length > 0, canRedo: history.future.length > 0 },
+  ] as const;
+}
+
 type ShellProps = {
   currentStep: number | null;
   children: ReactNode;
@@ -589,7 +4965,7 @@ function StepPage() {
       screenshotName,
       uploadedAt: new Date().toISOString(),
     };
-    localStorage.setItem(getArtifactKey(step.number), JSON.stringify(artifact));
+    writeStored(getArtifactKey(step.number), STEP_ARTIFACT_SCHEMA, artifact);
     setArtifacts((prev) => ({ ...prev, [step.number]: artifact }));
   };
 
@@ -608,7 +4984,7 @@ function StepPage() {
     setStep7Checklist((prev) => {
       const next = [...prev];
       next[index] = !next[index];
-      localStorage.setItem(STEP7_CHECKLIST_KEY, JSON.stringify(next));
+      writeStored(STEP7_CHECKLIST_KEY, STEP7_CHECKLIST_SCHEMA, next);
       return next;
     });
   };
@@ -796,8 +5172,8 @@ function ProofPage() {
   const handleLinkChange = (field: keyof ProofLinks, value: string) => {
     const nextLinks = { ...links, [field]: value };
     setLinks(nextLinks);
-    localStorage.setItem(FINAL_SUBMISSION_KEY, JSON.stringify(nextLinks));
-    localStorage.setItem(PROOF_LINKS_KEY, JSON.stringify(nextLinks));
+    writeStored(FINAL_SUBMISSION_KEY, PROOF_LINKS_SCHEMA, nextLinks);
+    writeStored(PROOF_LINKS_KEY, PROOF_LINKS_SCHEMA, nextLinks);
   };
 
   const handleCopySubmission = async () => {
@@ -910,60 +5286,67 @@ type TemplateTabsProps = {
 };
 
 type AccentPickerProps = {
-  selected: AccentTheme;
-  onChange: (theme: AccentTheme) => void;
+  color: string;
+  onChange: (color: string) => void;
+};
+
+type TypographyControlsProps = {
+  typography: ResumeTypography;
+  onChange: (typography: ResumeTypography) => void;
 };
 
 type ResumePreviewProps = {
   draft: ResumeDraft;
   template: ResumeTemplate;
   accentColor: string;
+  typography?: ResumeTypography;
+  pageSize?: PageSizeId;
+  sectionLayout?: ResumeSectionLayout;
   className?: string;
 };
 
 function TemplateTabs({ template, onChange }: TemplateTabsProps) {
-  const renderSketch = (option: ResumeTemplate) => {
-    if (option === 'Modern') {
-      return (
-        <div className="template-sketch template-sketch-modern">
-          <div />
-          <div>
-            <span />
-            <span />
-            <span />
-          </div>
-        </div>
-      );
-    }
-    if (option === 'Minimal') {
-      return (
-        <div className="template-sketch template-sketch-minimal">
-          <span />
-          <span />
-          <span />
-        </div>
-      );
-    }
+  const renderSketch = ({ regions, print, thumbnailLines }: ResumeTemplateDefinition) => {
+    const title = <span className="template-sketch__title" />;
+    const rule = print.headingRule ? <hr /> : null;
+    const lines = Array.from({ length: thumbnailLines }, (_, index) => <span key={index} />);
+    const style = { '--sketch-sidebar-width': `${(regions.sidebar?.width ?? 0) * 100}%` } as CSSProperties;
     return (
-      <div className="template-sketch template-sketch-classic">
-        <span />
-        <hr />
-        <span />
+      <div className={`template-sketch ${print.centeredHeader ? 'template-sketch-centered' : ''}`} style={style}>
+        {regions.header === 'top' || !regions.sidebar ? (
+          <>
+            {title}
+            {rule}
+          </>
+        ) : null}
+        {regions.sidebar ? (
+          <div className={`template-sketch__columns template-sketch__columns-${regions.sidebar.side}`}>
+            <div className={`template-sketch__sidebar ${regions.sidebar.filled ? 'template-sketch__sidebar-filled' : ''}`}>
+              {regions.header === 'sidebar' ? title : null}
+              <span />
+              <span />
+            </div>
+            <div className="template-sketch__main">{lines}</div>
+          </div>
+        ) : (
+          lines
+        )}
       </div>
     );
   };
 
   return (
     <div className="template-tabs" aria-label="Resume Templates">
-      {TEMPLATE_OPTIONS.map((option) => (
+      {RESUME_TEMPLATES.map((option) => (
         <button
-          key={option}
+          key={option.id}
           type="button"
-          className={`template-thumb ${template === option ? 'template-thumb-active' : ''}`}
-          onClick={() => onChange(option)}
+          className={`template-thumb ${template === option.id ? 'template-thumb-active' : ''}`}
+          title={option.description}
+          onClick={() => onChange(option.id)}
         >
-          {template === option ? <span className="template-check">OK</span> : null}
-          <div className="template-thumb__label">{option}</div>
+          {template === option.id ? <span className="template-check">OK</span> : null}
+          <div className="template-thumb__label">{option.label}</div>
           {renderSketch(option)}
         </button>
       ))}
@@ -971,24 +5354,500 @@ function TemplateTabs({ template, onChange }: TemplateTabsProps) {
   );
 }
 
-function ColorThemePicker({ selected, onChange }: AccentPickerProps) {
+function ColorThemePicker({ color, onChange }: AccentPickerProps) {
+  const [customError, setCustomError] = useState('');
+  const contrastWarning = getAccentContrastWarning(color);
+
+  const applyCustomColor = (value: string) => {
+    if (!isCssColor(value)) {
+      setCustomError('Enter a hex color like #1F6F5C or an HSL color like hsl(168, 60%, 30%), with hue 0-360 and saturation and lightness 0-100%.');
+      return;
+    }
+    setCustomError('');
+    onChange(value.trim());
+  };
+
+  return (
+    <div className="accent-picker">
+      <div className="color-picker" aria-label="Color Themes">
+        {ACCENT_THEMES.map((theme) => (
+          <button
+            key={theme.id}
+            type="button"
+            className={`color-dot ${color === theme.color ? 'color-dot-active' : ''}`}
+            style={{ background: theme.color }}
+            onClick={() => {
+              setCustomError('');
+              onChange(theme.color);
+            }}
+            title={theme.label}
+            aria-label={theme.label}
+          />
+        ))}
+        <input
+          className="color-swatch-input"
+          type="color"
+          value={`#${toHexColor(parseCssColor(color)).toLowerCase()}`}
+          onChange={(e) => applyCustomColor(e.target.value)}
+          title="Custom Color"
+          aria-label="Custom Color"
+        />
+        <input
+          key={color}
+          className="input color-text-input"
+          defaultValue={color}
+          placeholder="#1F6F5C or hsl(168, 60%, 30%)"
+          aria-label="Accent Color (hex or HSL)"
+          aria-invalid={Boolean(customError)}
+          onBlur={(e) => applyCustomColor(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') applyCustomColor(e.currentTarget.value);
+          }}
+        />
+      </div>
+      {customError ? <p className="inline-guidance field-error">{customError}</p> : null}
+      {contrastWarning ? (
+        <p className="inline-guidance contrast-warning" role="status">
+          {contrastWarning}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+function TypographyControls({ typography, onChange }: TypographyControlsProps) {
+  const update = (patch: Partial<ResumeTypography>) => onChange({ ...typography, ...patch });
+
+  return (
+    <div className="typography-controls" aria-label="Typography">
+      <label className="typography-field">
+        <span>Fonts</span>
+        <select
+          className="input"
+          value={typography.fontPairingId}
+          onChange={(e) => update({ fontPairingId: toFontPairingChoice(e.target.value).id })}
+        >
+          {FONT_PAIRINGS.map((pairing) => (
+            <option key={pairing.id} value={pairing.id}>
+              {pairing.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="typography-field">
+        <span>Base Size</span>
+        <select
+          className="input"
+          value={typography.fontSize ?? ''}
+          onChange={(e) => update({ fontSize: e.target.value ? Number(e.target.value) : null })}
+        >
+          <option value="">Template Default</option>
+          {FONT_SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>
+              {size} pt
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="typography-field">
+        <span>Line Spacing</span>
+        <select
+          className="input"
+          value={typography.lineSpacing}
+          onChange={(e) => update({ lineSpacing: toLineSpacingChoice(e.target.value).id })}
+        >
+          {LINE_SPACINGS.map((spacing) => (
+            <option key={spacing.id} value={spacing.id}>
+              {spacing.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="typography-field">
+        <span>Margins</span>
+        <select
+          className="input"
+          value={typography.marginDensity}
+          onChange={(e) => update({ marginDensity: toMarginDensityChoice(e.target.value).id })}
+        >
+          {MARGIN_DENSITIES.map((density) => (
+            <option key={density.id} value={density.id}>
+              {density.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+type SectionLayoutEditorProps = {
+  layout: ResumeSectionLayout;
+  onChange: (layout: ResumeSectionLayout) => void;
+};
+
+type VariantPanelProps = {
+  baseName: string | null;
+  updates: DraftUnitChange[];
+  changes: DraftUnitChange[];
+  onApply: (keys: string[]) => void;
+  onIgnore: (keys: string[]) => void;
+  onDetach: () => void;
+};
+
+const DRAFT_CHANGE_LABELS: Record<DraftUnitChange['status'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+function VariantPanel({ baseName, updates, changes, onApply, onIgnore, onDetach }: VariantPanelProps) {
+  const [showDiff, setShowDiff] = useState(false);
+  const safeKeys = updates.filter((update) => !update.conflict).map((update) => update.key);
+
+  if (baseName === null) {
+    return (
+      <div className="entry-card variant-panel">
+        <h3>Tailored Variant</h3>
+        <p className="inline-guidance">The base resume for this variant was deleted, so base updates can no longer be offered.</p>
+        <button type="button" className="button" onClick={onDetach}>Detach From Base</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="entry-card variant-panel">
+      <div className="project-header-row">
+        <h3>Tailored variant of {baseName}</h3>
+        <button type="button" className="button" onClick={onDetach}>Detach</button>
+      </div>
+      {updates.length === 0 ? (
+        <p className="inline-guidance">Up to date with the base resume.</p>
+      ) : (
+        <>
+          <p className="inline-guidance">{countLabel(updates.length, 'change')} made in the base resume since this variant last synced.</p>
+          <ul className="variant-updates">
+            {updates.map((update) => (
+              <li key={update.key} className="variant-updates__item">
+                <span>
+                  {DRAFT_CHANGE_LABELS[update.status]}: {update.label}
+                  {update.conflict ? <span className="variant-updates__conflict"> (also edited in this variant - applying replaces your edit)</span> : null}
+                </span>
+                <div className="action-row">
+                  <button type="button" className="button" onClick={() => onApply([update.key])}>Apply</button>
+                  <button type="button" className="button" onClick={() => onIgnore([update.key])}>Ignore</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {safeKeys.length > 0 ? (
+            <button type="button" className="button button-accent" onClick={() => onApply(safeKeys)}>
+              Apply All Non-conflicting
+            </button>
+          ) : null}
+        </>
+      )}
+      <button type="button" className="button" onClick={() => setShowDiff((prev) => !prev)}>
+        {showDiff ? 'Hide Comparison' : `Compare With Base (${countLabel(changes.length, 'difference')})`}
+      </button>
+      {showDiff ? (
+        changes.length === 0 ? (
+          <p className="inline-guidance">This variant matches the base resume.</p>
+        ) : (
+          <div className="variant-diff" role="table" aria-label="Differences from the base resume">
+            <div className="variant-diff__row variant-diff__head" role="row">
+              <span role="columnheader">Section</span>
+              <span role="columnheader">{baseName}</span>
+              <span role="columnheader">This variant</span>
+            </div>
+            {changes.map((change) => (
+              <div key={change.key} className="variant-diff__row" role="row">
+                <span role="cell" className="label">{change.label}</span>
+                <span role="cell" className="variant-diff__before">{change.before || '-'}</span>
+                <span role="cell" className="variant-diff__after">{change.after || '-'}</span>
+              </div>
+            ))}
+          </div>
+        )
+      ) : null}
+    </div>
+  );
+}
+
+type WritingAssistantPanelProps = {
+  settings: WritingAssistantSettings;
+  onChange: (settings: WritingAssistantSettings) => void;
+};
+
+function WritingAssistantPanel({ settings, onChange }: WritingAssistantPanelProps) {
+  const provider = WRITING_ASSISTANT_PROVIDERS.find((option) => option.id === settings.provider) ?? WRITING_ASSISTANT_PROVIDERS[0];
+  const updateLlm = (patch: Partial<LlmAssistantConfig>) => onChange({ ...settings, llm: { ...settings.llm, ...patch } });
+  const host = getEndpointHost(settings.llm.endpoint);
+
+  return (
+    <div className="assistant-settings">
+      <select
+        className="input format-select"
+        aria-label="Writing assistant provider"
+        value={settings.provider}
+        onChange={(event) => onChange({ ...settings, provider: event.target.value === 'llm' ? 'llm' : 'local' })}
+      >
+        {WRITING_ASSISTANT_PROVIDERS.map((option) => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+      <p className="inline-guidance">{provider.description}</p>
+      {settings.provider === 'llm' ? (
+        <>
+          <input
+            className="input"
+            placeholder="Chat completions endpoint"
+            value={settings.llm.endpoint}
+            onChange={(event) => updateLlm({ endpoint: event.target.value })}
+          />
+          <p className="inline-guidance">{host ? `Requests go to ${host}.` : 'Enter a valid http(s) endpoint URL.'}</p>
+          <input className="input" placeholder="Model" value={settings.llm.model} onChange={(event) => updateLlm({ model: event.target.value })} />
+          <input
+            className="input"
+            type="password"
+            placeholder="API key"
+            autoComplete="off"
+            value={settings.llm.apiKey}
+            onChange={(event) => updateLlm({ apiKey: event.target.value })}
+          />
+          <p className="inline-guidance">
+            The key is stored unencrypted in this tab until it closes and is sent to {host ?? 'the endpoint'} with every request.
+          </p>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function SectionLayoutEditor({ layout, onChange }: SectionLayoutEditorProps) {
+  const [draggingId, setDraggingId] = useState<ResumeSectionId | null>(null);
+
+  const moveSection = (id: ResumeSectionId, targetId: ResumeSectionId) => {
+    if (id === targetId) return;
+    const order = layout.order.filter((item) => item !== id);
+    order.splice(order.indexOf(targetId) + (layout.order.indexOf(id) < layout.order.indexOf(targetId) ? 1 : 0), 0, id);
+    onChange({ ...layout, order });
+  };
+
+  const toggleHidden = (id: ResumeSectionId) => {
+    onChange({
+      ...layout,
+      hidden: layout.hidden.includes(id) ? layout.hidden.filter((item) => item !== id) : [...layout.hidden, id],
+    });
+  };
+
+  return (
+    <ol className="section-order" aria-label="Section Order">
+      {layout.order.map((id, index) => (
+        <li
+          key={id}
+          className={`section-order__item ${draggingId === id ? 'section-order__item-dragging' : ''}`}
+          draggable
+          onDragStart={(event) => {
+            event.dataTransfer.effectAllowed = 'move';
+            setDraggingId(id);
+          }}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            event.preventDefault();
+            if (draggingId) moveSection(draggingId, id);
+            setDraggingId(null);
+          }}
+          onDragEnd={() => setDraggingId(null)}
+        >
+          <span className="section-order__handle" aria-hidden="true">::</span>
+          <span className="section-order__label">{RESUME_SECTIONS.find((section) => section.id === id)?.label}</span>
+          <button type="button" className="button" disabled={index === 0} onClick={() => moveSection(id, layout.order[index - 1])} aria-label="Move up">
+            Up
+          </button>
+          <button
+            type="button"
+            className="button"
+            disabled={index === layout.order.length - 1}
+            onClick={() => moveSection(id, layout.order[index + 1])}
+            aria-label="Move down"
+          >
+            Down
+          </button>
+          <label className="checkbox-label">
+            <input type="checkbox" checked={!layout.hidden.includes(id)} onChange={() => toggleHidden(id)} />
+            Show
+          </label>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+type SkillChipsProps = {
+  skills: string[];
+  onChange: (skills: string[]) => void;
+};
+
+function SkillChips({ skills, onChange }: SkillChipsProps) {
+  const [draggingSkill, setDraggingSkill] = useState<string | null>(null);
+
+  const moveSkill = (skill: string, targetIndex: number) => {
+    if (targetIndex < 0 || targetIndex >= skills.length) return;
+    const order = skills.filter((item) => item !== skill);
+    order.splice(targetIndex, 0, skill);
+    onChange(order);
+  };
+
   return (
-    <div className="color-picker" aria-label="Color Themes">
-      {ACCENT_THEMES.map((theme) => (
+    <div className="chip-wrap">
+      {skills.map((skill, index) => (
         <button
-          key={theme.id}
+          key={skill}
           type="button"
-          className={`color-dot ${selected.id === theme.id ? 'color-dot-active' : ''}`}
-          style={{ background: theme.color }}
-          onClick={() => onChange(theme)}
-          title={theme.label}
-          aria-label={theme.label}
-        />
+          className={`chip ${draggingSkill === skill ? 'chip-dragging' : ''}`}
+          title="Drag or use the arrow keys to reorder, click to remove"
+          draggable
+          onDragStart={(event) => {
+            event.dataTransfer.effectAllowed = 'move';
+            setDraggingSkill(skill);
+          }}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            event.preventDefault();
+            if (draggingSkill) moveSkill(draggingSkill, index);
+            setDraggingSkill(null);
+          }}
+          onDragEnd={() => setDraggingSkill(null)}
+          onKeyDown={(event) => {
+            if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+            event.preventDefault();
+            moveSkill(skill, index + (event.key === 'ArrowLeft' ? -1 : 1));
+          }}
+          onClick={() => onChange(skills.filter((item) => item !== skill))}
+        >
+          {skill} x
+        </button>
       ))}
     </div>
   );
 }
 
+type DateRangeFieldsProps = {
+  range: DateRange;
+  currentLabel: string;
+  onChange: (range: DateRange) => void;
+};
+
+type MonthYearFieldProps = {
+  label: string;
+  date: ResumeDate;
+  disabled?: boolean;
+  onChange: (date: ResumeDate) => void;
+};
+
+function MonthYearField({ label, date, disabled = false, onChange }: MonthYearFieldProps) {
+  return (
+    <div className="date-field">
+      <span>{label}</span>
+      <select
+        className="input"
+        aria-label={`${label} month`}
+        disabled={disabled}
+        value={date.month ?? ''}
+        onChange={(event) => onChange({ ...date, month: event.target.value ? Number(event.target.value) : null })}
+      >
+        <option value="">Month</option>
+        {MONTH_LABELS.map((month, index) => (
+          <option key={month} value={index + 1}>{month}</option>
+        ))}
+      </select>
+      <input
+        className="input"
+        type="number"
+        inputMode="numeric"
+        min={1950}
+        max={2100}
+        placeholder="Year"
+        aria-label={`${label} year`}
+        disabled={disabled}
+        value={date.year ?? ''}
+        onChange={(event) => onChange({ ...date, year: event.target.value ? Math.trunc(Number(event.target.value)) : null })}
+      />
+    </div>
+  );
+}
+
+function DateRangeFields({ range, currentLabel, onChange }: DateRangeFieldsProps) {
+  return (
+    <div className="date-range">
+      <MonthYearField label="Start" date={range.start} onChange={(start) => onChange({ ...range, start, raw: '' })} />
+      <MonthYearField label="End" date={range.end} disabled={range.current} onChange={(end) => onChange({ ...range, end, raw: '' })} />
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={range.current}
+          onChange={(event) => onChange({ ...range, current: event.target.checked, end: createResumeDate(), raw: '' })}
+        />
+        {currentLabel}
+      </label>
+    </div>
+  );
+}
+
+type AtsProfilePickerProps = {
+  profileId: AtsProfileId;
+  onChange: (profileId: AtsProfileId) => void;
+};
+
+function AtsProfilePicker({ profileId, onChange }: AtsProfilePickerProps) {
+  const profile = toAtsProfileChoice(profileId);
+  return (
+    <div className="ats-profile">
+      <select
+        className="input format-select"
+        aria-label="Scoring profile"
+        value={profile.id}
+        onChange={(event) => onChange(toAtsProfileChoice(event.target.value).id)}
+      >
+        {ATS_PROFILES.map((option) => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+      <p className="inline-guidance">{profile.description}</p>
+    </div>
+  );
+}
+
+function AtsBreakdown({ result }: { result: AtsResult }) {
+  return (
+    <ul className="ats-breakdown" aria-label="Score breakdown">
+      {result.breakdown.map((item) => (
+        <li key={item.id} className={`ats-breakdown__item ${item.earned === item.possible ? 'ats-breakdown__item-met' : ''}`}>
+          <span className="ats-breakdown__points">{item.earned}/{item.possible}</span>
+          <span>{item.reason}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function WritingFindings({ findings }: { findings: WritingFinding[] }) {
+  if (findings.length === 0) return null;
+  return (
+    <ul className="writing-findings">
+      {findings.map((finding) => (
+        <li key={finding.id} className={`writing-finding writing-finding-${finding.severity}`}>
+          <span className="writing-finding__severity">{finding.severity}</span>
+          <span>
+            {finding.message} <em>{finding.suggestion}</em>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function AtsScoreCircle({ score }: { score: number }) {
   const circumference = 2 * Math.PI * 45;
   const offset = circumference - (score / 100) * circumference;
@@ -1024,13 +5883,47 @@ function AtsScoreCircle({ score }: { score: number }) {
   );
 }
 
-function ResumePreviewDocument({ draft, template, accentColor, className = '' }: ResumePreviewProps) {
+function JobMatchDetails({ report }: { report: JobMatchReport }) {
+  return (
+    <div className="suggestions">
+      <p>
+        <strong>Job Match: {report.score}%</strong> ({report.matched.length} of {report.matched.length + report.missing.length} keywords found)
+      </p>
+      {report.matched.length ? (
+        <div className="chip-wrap">
+          {report.matched.map((item) => (
+            <span key={item.keyword} className="chip chip-static">
+              {item.keyword}: {item.foundIn.map((location) => JOB_LOCATION_LABELS[location]).join(', ')}
+            </span>
+          ))}
+        </div>
+      ) : null}
+      {report.missing.map((item) => (
+        <p key={item.keyword}>
+          Missing {item.importance} keyword <strong>{item.keyword}</strong>. {item.suggestion}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function ResumePreviewDocument({
+  draft,
+  template,
+  accentColor,
+  typography = DEFAULT_TYPOGRAPHY,
+  pageSize = 'a4',
+  sectionLayout = createSectionLayout(),
+  className = '',
+}: ResumePreviewProps) {
   const previewEducation = nonEmptyEducation(draft);
   const previewExperience = nonEmptyExperience(draft);
   const previewProjects = nonEmptyProjects(draft);
   const previewSkills = skillItems(draft);
+  const outline = toResumeOutline(draft);
   const contactLine = [draft.email, draft.phone, draft.location].map((item) => item.trim()).filter(Boolean).join(' | ');
-  const style = { '--resume-accent': accentColor } as CSSProperties;
+  const definition = resolveResumeTemplate(template, typography);
+  const { regions } = definition;
 
   const sectionSummary = draft.summary.trim() ? (
     <section className="preview-section">
@@ -1043,7 +5936,7 @@ function ResumePreviewDocument({ draft, template, accentColor, className = '' }:
     <section className="preview-section">
       <h3>Education</h3>
       {previewEducation.map((entry) => (
-        <p className="print-avoid-break" key={entry.id}>{[entry.school, entry.degree, entry.year].filter((item) => item.trim()).join(' | ')}</p>
+        <p className="print-avoid-break" key={entry.id}>{[entry.school, entry.degree, formatDateRange(entry.dates)].filter((item) => item.trim()).join(' | ')}</p>
       ))}
     </section>
   ) : null;
@@ -1053,8 +5946,14 @@ function ResumePreviewDocument({ draft, template, accentColor, className = '' }:
       <h3>Experience</h3>
       {previewExperience.map((entry) => (
         <div className="print-avoid-break project-preview-card" key={entry.id}>
-          <p>{[entry.company, entry.role, entry.duration].filter((item) => item.trim()).join(' | ')}</p>
-          {entry.bullet.trim() ? <p>{entry.bullet.trim()}</p> : null}
+          <p>{[entry.company, entry.role, formatDateRange(entry.dates)].filter((item) => item.trim()).join(' | ')}</p>
+          {entry.bullets.some((bullet) => bullet.text.trim()) ? (
+            <ul className="preview-bullets">
+              {entry.bullets.filter((bullet) => bullet.text.trim()).map((bullet) => (
+                <li key={bullet.id}>{bullet.text.trim()}</li>
+              ))}
+            </ul>
+          ) : null}
         </div>
       ))}
     </section>
@@ -1110,50 +6009,425 @@ function ResumePreviewDocument({ draft, template, accentColor, className = '' }:
           </div>
         </div>
       ) : null}
-    </section>
-  ) : null;
+    </section>
+  ) : null;
+
+  const sectionLinks = (draft.github.trim() || draft.linkedin.trim()) ? (
+    <section className="preview-section">
+      <h3>Links</h3>
+      {draft.github.trim() ? <p>{draft.github.trim()}</p> : null}
+      {draft.linkedin.trim() ? <p>{draft.linkedin.trim()}</p> : null}
+    </section>
+  ) : null;
+
+  const renderEntrySection = (title: string, entries: ResumeOutlineEntry[], key = title) =>
+    entries.length ? (
+      <section className="preview-section" key={key}>
+        <h3>{title}</h3>
+        {entries.map((entry, index) => (
+          <div className="print-avoid-break" key={`${key}-${index}`}>
+            <p>{[entry.title, entry.subtitle, entry.date].filter(Boolean).join(' | ')}</p>
+            {entry.details.map((detail, detailIndex) => (
+              <p key={`${key}-${index}-${detailIndex}`}>{detail}</p>
+            ))}
+            {entry.links.length ? (
+              <div className="project-links">
+                {entry.links.map((link) => (
+                  <a key={link.url} href={link.url} target="_blank" rel="noreferrer">{link.label}</a>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </section>
+    ) : null;
+
+  const sections: Record<ResumeSectionId, ReactNode> = {
+    summary: sectionSummary,
+    education: sectionEducation,
+    experience: sectionExperience,
+    projects: sectionProjects,
+    skills: sectionSkills,
+    certifications: renderEntrySection('Certifications', outline.certifications),
+    awards: renderEntrySection('Awards', outline.awards),
+    languages: outline.languages.length ? (
+      <section className="preview-section">
+        <h3>Languages</h3>
+        <p>{outline.languages.join(', ')}</p>
+      </section>
+    ) : null,
+    volunteering: renderEntrySection('Volunteering', outline.volunteering),
+    publications: renderEntrySection('Publications', outline.publications),
+    custom: outline.custom.map((section, index) => renderEntrySection(section.title, section.entries, `custom-${index}`)),
+    links: sectionLinks,
+  };
+  const renderSections = (ids: ResumeSectionId[]) =>
+    ids.map((id) => (sections[id] ? <div key={id} className="preview-section-slot" data-section={id}>{sections[id]}</div> : null));
+  const regionSections = getTemplateSections(sectionLayout, definition);
+  const header = draft.name.trim() || contactLine ? (
+    <header className="resume-header">
+      {draft.name.trim() ? <h2>{draft.name.trim()}</h2> : null}
+      {contactLine ? <p>{contactLine}</p> : null}
+    </header>
+  ) : null;
+
+  return (
+    <div className={`${toTemplateShellClass(definition)} ${className}`} style={toTemplateStyle(definition, accentColor, pageSize)}>
+      {regions.header === 'top' || !regions.sidebar ? header : null}
+      {regions.sidebar ? (
+        <div className="resume-columns">
+          <aside className="resume-sidebar">
+            {regions.header === 'sidebar' ? header : null}
+            {renderSections(regionSections.sidebar)}
+          </aside>
+          <main className="resume-main">{renderSections(regionSections.main)}</main>
+        </div>
+      ) : (
+        renderSections(regionSections.main)
+      )}
+    </div>
+  );
+}
+
+type PreviewBlock = { top: number; bottom: number };
+
+type PreviewLayout = {
+  pageCount: number;
+  overflowSections: ResumeSectionId[];
+};
+
+const PX_PER_PT = 96 / 72;
+const MAX_PREVIEW_PAGES = 12;
+
+const measurePreviewBlocks = (shell: HTMLElement): PreviewBlock[] => {
+  const origin = shell.getBoundingClientRect().top;
+  const measure = (element: Element) => {
+    const rect = element.getBoundingClientRect();
+    return { top: rect.top - origin, bottom: rect.bottom - origin };
+  };
+  const blocks = [...shell.querySelectorAll('.resume-header')].map(measure);
+  shell.querySelectorAll('section.preview-section').forEach((section) => {
+    const children = [...section.children];
+    children.forEach((child, index) => {
+      if (child.tagName === 'H3') return;
+      const previous = children[index - 1];
+      const block = measure(child);
+      // Keep a section heading on the same page as its first entry.
+      blocks.push(previous?.tagName === 'H3' ? { ...block, top: measure(previous).top } : block);
+    });
+  });
+  return blocks;
+};
+
+const getPreviewPageBreaks = (blocks: PreviewBlock[], start: number, end: number, capacity: number) => {
+  const breaks = [start];
+  while (end - breaks[breaks.length - 1] > capacity && breaks.length < MAX_PREVIEW_PAGES) {
+    const current = breaks[breaks.length - 1];
+    const candidates = blocks
+      .map((block) => block.top)
+      .filter((top) => top > current && top <= current + capacity && !blocks.some((block) => block.top < top && block.bottom > top));
+    breaks.push(candidates.length ? Math.max(...candidates) : current + capacity);
+  }
+  return [...breaks, end];
+};
+
+const getPreviewOverflowSections = (shell: HTMLElement, firstPageEnd: number) => {
+  const origin = shell.getBoundingClientRect().top;
+  return [...shell.querySelectorAll<HTMLElement>('[data-section]')]
+    .filter((slot) => [...slot.children].some((child) => child.getBoundingClientRect().bottom - origin > firstPageEnd + 1))
+    .map((slot) => slot.dataset.section)
+    .filter(isResumeSectionId);
+};
+
+type PagedPreviewProps = {
+  definition: ResumeTemplateDefinition;
+  accentColor: string;
+  pageSize: PageSizeId;
+  onLayoutChange?: (layout: PreviewLayout) => void;
+  children: ReactNode;
+};
+
+function PagedPreview({ definition, accentColor, pageSize, onLayoutChange, children }: PagedPreviewProps) {
+  const documentRef = useRef<HTMLDivElement>(null);
+  const [breaks, setBreaks] = useState<number[] | null>(null);
+  const page = toPageSizeChoice(pageSize);
+  const { margin } = definition.print;
+  const capacity = (page.height - margin * 2) * PX_PER_PT;
+  const sidebar = definition.regions.sidebar;
+
+  useEffect(() => {
+    const shell = documentRef.current?.firstElementChild;
+    if (!(shell instanceof HTMLElement)) return undefined;
+    const observer = new ResizeObserver(() => {
+      const style = getComputedStyle(shell);
+      const start = parseFloat(style.paddingTop) || 0;
+      const end = shell.offsetHeight - (parseFloat(style.paddingBottom) || 0);
+      const next = getPreviewPageBreaks(measurePreviewBlocks(shell), start, end, capacity);
+      setBreaks(next);
+      onLayoutChange?.({ pageCount: next.length - 1, overflowSections: next.length > 2 ? getPreviewOverflowSections(shell, next[1]) : [] });
+    });
+    observer.observe(shell);
+    return () => observer.disconnect();
+  }, [capacity, onLayoutChange]);
+
+  const ranges = breaks ? breaks.slice(0, -1).map((start, index) => ({ start, end: breaks[index + 1] })) : [{ start: 0, end: capacity }];
+  const lastRange = ranges[ranges.length - 1];
+  const truncated = lastRange.end - lastRange.start > capacity + 1;
+
+  return (
+    <div className="paged-preview">
+      <style>{`@page { size: ${page.width}pt ${page.height}pt; margin: 0; }`}</style>
+      <p className="page-count no-print" role="status">
+        {countLabel(ranges.length, 'page')} at {page.label} size
+      </p>
+      {truncated ? (
+        <p className="inline-guidance field-error no-print" role="alert">
+          The preview stops after {countLabel(MAX_PREVIEW_PAGES, 'page')}, so the end of page {ranges.length} is cut off. Download the PDF to see everything.
+        </p>
+      ) : null}
+      <div className="preview-pages">
+        {ranges.map((range, index) => (
+          <div
+            key={index}
+            className={`preview-page ${sidebar?.filled ? `preview-page-band-${sidebar.side}` : ''}`}
+            // Every page renders the whole document and shows a slice of it, so only the first copy is exposed.
+            aria-hidden={index > 0 || undefined}
+            inert={index > 0}
+            style={{
+              ...toTemplateStyle(definition, accentColor, pageSize),
+              width: `${page.width}pt`,
+              height: `${page.height}pt`,
+              paddingTop: `${margin}pt`,
+            }}
+          >
+            <div className="preview-page__body" style={{ height: `${range.end - range.start}px` }}>
+              <div ref={index === 0 ? documentRef : undefined} style={{ transform: `translateY(${-range.start}px)` }}>
+                {children}
+              </div>
+            </div>
+            <span className="preview-page__number no-print">
+              {index + 1} / {ranges.length}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
 
-  const sectionLinks = (draft.github.trim() || draft.linkedin.trim()) ? (
-    <section className="preview-section">
-      <h3>Links</h3>
-      {draft.github.trim() ? <p>{draft.github.trim()}</p> : null}
-      {draft.linkedin.trim() ? <p>{draft.linkedin.trim()}</p> : null}
-    </section>
+type CoverLetterDocumentProps = {
+  draft: ResumeDraft;
+  letter: CoverLetter;
+  template: ResumeTemplate;
+  accentColor: string;
+  typography?: ResumeTypography;
+  pageSize?: PageSizeId;
+  className?: string;
+};
+
+function CoverLetterDocument({
+  draft,
+  letter,
+  template,
+  accentColor,
+  typography = DEFAULT_TYPOGRAPHY,
+  pageSize = 'a4',
+  className = '',
+}: CoverLetterDocumentProps) {
+  const parts = getCoverLetterParts(draft, letter);
+  const definition = resolveResumeTemplate(template, typography);
+  const shellClassName = `${toTemplateShellClass(definition)} ${className}`;
+  const header = parts.name || parts.contact ? (
+    <header className="resume-header">
+      {parts.name ? <h2>{parts.name}</h2> : null}
+      {parts.contact ? <p>{parts.contact}</p> : null}
+    </header>
   ) : null;
+  const body = (
+    <section className="preview-section cover-letter-body">
+      <p>{parts.date}</p>
+      {parts.recipient.length ? (
+        <p>
+          {parts.recipient.map((line, index) => (
+            <Fragment key={line.field}>
+              {index > 0 ? <br /> : null}
+              {line.text}
+            </Fragment>
+          ))}
+        </p>
+      ) : null}
+      <p>{parts.salutation}</p>
+      {parts.blocks.map((block, index) =>
+        block.kind === 'list' ? (
+          <ul key={index} className="preview-bullets">
+            {block.items.map((item, itemIndex) => <li key={itemIndex}>{item}</li>)}
+          </ul>
+        ) : (
+          <p key={index}>{block.text}</p>
+        ))}
+      <p>
+        {parts.signOff}
+        {parts.name ? (
+          <>
+            <br />
+            <strong>{parts.name}</strong>
+          </>
+        ) : null}
+      </p>
+    </section>
+  );
 
-  if (template === 'Modern') {
+  if (definition.regions.header === 'sidebar' && definition.regions.sidebar) {
     return (
-      <div className={`resume-preview-shell template-modern ${className}`} style={style}>
-        <aside className="resume-sidebar">
-          {draft.name.trim() ? <h2>{draft.name.trim()}</h2> : null}
-          {contactLine ? <p>{contactLine}</p> : null}
-          {sectionSkills}
-          {sectionLinks}
-        </aside>
-        <main className="resume-main">
-          {sectionSummary}
-          {sectionExperience}
-          {sectionProjects}
-          {sectionEducation}
-        </main>
+      <div className={shellClassName} style={toTemplateStyle(definition, accentColor, pageSize)}>
+        <div className="resume-columns">
+          <aside className="resume-sidebar">{header}</aside>
+          <main className="resume-main">{body}</main>
+        </div>
       </div>
     );
   }
 
   return (
-    <div className={`resume-preview-shell ${toTemplateClass(template)} ${className}`} style={style}>
-      {(draft.name.trim() || contactLine) && (
-        <section className="preview-section">
-          {draft.name.trim() ? <h2>{draft.name.trim()}</h2> : null}
-          {contactLine ? <p>{contactLine}</p> : null}
-        </section>
-      )}
-      {sectionSummary}
-      {sectionEducation}
-      {sectionExperience}
-      {sectionProjects}
-      {sectionSkills}
-      {sectionLinks}
+    <div className={shellClassName} style={toTemplateStyle(definition, accentColor, pageSize)}>
+      {header}
+      {body}
+    </div>
+  );
+}
+
+type ResumeLibraryPanelProps = {
+  currentId: string;
+  basePath: '/builder' | '/preview' | '/cover-letter';
+};
+
+function ResumeLibraryPanel({ currentId, basePath }: ResumeLibraryPanelProps) {
+  const navigate = useNavigate();
+  const [library, setLibrary] = useState<ResumeLibrary>(() => readResumeLibrary());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const commitLibrary = (next: ResumeLibrary) => {
+    writeResumeLibrary(next);
+    setLibrary(next);
+  };
+
+  const openResume = (id: string) => navigate(`${basePath}/${id}`);
+
+  const createResume = () => {
+    const latest = readResumeLibrary();
+    const record = createResumeRecord(`Untitled Resume ${latest.resumes.length + 1}`);
+    commitLibrary({ activeId: record.id, resumes: [...latest.resumes, record] });
+    openResume(record.id);
+  };
+
+  const duplicateResume = (id: string) => {
+    const latest = readResumeLibrary();
+    const source = latest.resumes.find((resume) => resume.id === id);
+    if (!source) return;
+    const copy = {
+      ...createResumeRecord(`${source.name} (Copy)`, structuredClone(source.draft), source.template, source.accentColor, source.typography),
+      pageSize: source.pageSize,
+      fitToOnePage: source.fitToOnePage,
+      sectionLayout: structuredClone(source.sectionLayout),
+      atsProfileId: source.atsProfileId,
+      coverLetter: structuredClone(source.coverLetter),
+      coverLetterPageSize: source.coverLetterPageSize,
+      variant: structuredClone(source.variant),
+    };
+    commitLibrary({ activeId: copy.id, resumes: [...latest.resumes, copy] });
+    openResume(copy.id);
+  };
+
+  const tailorResume = (id: string) => {
+    const latest = readResumeLibrary();
+    const source = latest.resumes.find((resume) => resume.id === id);
+    if (!source) return;
+    const variant = {
+      ...createResumeRecord(`${source.name} - Tailored`, structuredClone(source.draft), source.template, source.accentColor, source.typography),
+      pageSize: source.pageSize,
+      fitToOnePage: source.fitToOnePage,
+      sectionLayout: structuredClone(source.sectionLayout),
+      atsProfileId: source.atsProfileId,
+      variant: { baseId: source.id, snapshot: structuredClone(source.draft) },
+    };
+    commitLibrary({ activeId: variant.id, resumes: [...latest.resumes, variant] });
+    navigate(`/builder/${variant.id}`);
+  };
+
+  const describeVariant = (resume: ResumeRecord) => {
+    if (!resume.variant) return null;
+    const baseId = resume.variant.baseId;
+    const base = library.resumes.find((item) => item.id === baseId);
+    if (!base) return 'Variant of a deleted resume';
+    const pending = getBaseUpdates(resume.variant.snapshot, base.draft, resume.draft).length;
+    return `Variant of ${base.name}${pending > 0 ? ` - ${countLabel(pending, 'base update')} pending` : ''}`;
+  };
+
+  const startRename = (resume: ResumeRecord) => {
+    setRenamingId(resume.id);
+    setRenameValue(resume.name);
+  };
+
+  const commitRename = () => {
+    if (!renamingId) return;
+    const name = renameValue.trim();
+    if (name) updateResumeRecord(renamingId, { name });
+    setLibrary(readResumeLibrary());
+    setRenamingId(null);
+  };
+
+  const deleteResume = (resume: ResumeRecord) => {
+    const latest = readResumeLibrary();
+    if (latest.resumes.length <= 1) return;
+    if (!window.confirm(`Delete "${resume.name}"? This cannot be undone.`)) return;
+    const resumes = latest.resumes.filter((item) => item.id !== resume.id);
+    const activeId = latest.activeId === resume.id ? resumes[0].id : latest.activeId;
+    commitLibrary({ activeId, resumes });
+    if (resume.id === currentId) openResume(activeId);
+  };
+
+  return (
+    <div className="library-panel">
+      <div className="project-header-row">
+        <h3>My Resumes</h3>
+        <button type="button" className="button" onClick={createResume}>New Resume</button>
+      </div>
+      {library.resumes.map((resume) => (
+        <div key={resume.id} className={`library-item ${resume.id === currentId ? 'library-item-active' : ''}`}>
+          {renamingId === resume.id ? (
+            <input
+              className="input"
+              value={renameValue}
+              autoFocus
+              onChange={(event) => setRenameValue(event.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') commitRename();
+                if (event.key === 'Escape') setRenamingId(null);
+              }}
+            />
+          ) : (
+            <button type="button" className="library-item__name" onClick={() => openResume(resume.id)}>
+              {resume.name}
+            </button>
+          )}
+          {resume.variant ? <p className="library-item__meta">{describeVariant(resume)}</p> : null}
+          <div className="action-row">
+            <button type="button" className="button" onClick={() => startRename(resume)}>Rename</button>
+            <button type="button" className="button" onClick={() => duplicateResume(resume.id)}>Duplicate</button>
+            <button type="button" className="button" onClick={() => tailorResume(resume.id)}>Tailor</button>
+            <button
+              type="button"
+              className={`button ${library.resumes.length <= 1 ? 'button-disabled' : ''}`}
+              onClick={() => deleteResume(resume)}
+              disabled={library.resumes.length <= 1}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
     </div>
   );
 }
@@ -1180,50 +6454,341 @@ function HomePage() {
   );
 }
 
-function BuilderPage() {
-  const [draft, setDraft] = useState<ResumeDraft>(() => readResumeDraft());
-  const [template, setTemplate] = useState<ResumeTemplate>(() => readTemplateChoice());
-  const [accentTheme, setAccentTheme] = useState<AccentTheme>(() => readAccentChoice());
+type ResumeTextImportPanelProps = {
+  onApply: (imported: ResumeDraft, sections: ImportedSectionId[]) => void;
+};
+
+function ResumeTextImportPanel({ onApply }: ResumeTextImportPanelProps) {
+  const [sourceText, setSourceText] = useState('');
+  const [result, setResult] = useState<ResumeTextImport | null>(null);
+  const [accepted, setAccepted] = useState<ImportedSectionId[]>([]);
+  const [status, setStatus] = useState('');
+
+  const analyze = (text: string) => {
+    const parsed = parseResumeText(text);
+    setResult(parsed);
+    setAccepted(parsed.sections);
+    setStatus(parsed.sections.length ? '' : 'No resume sections were recognised. Check the headings and try again.');
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setStatus(`Reading ${file.name}...`);
+      const text = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf') ? await extractPdfText(file) : await file.text();
+      if (!text.trim()) {
+        setStatus(`${file.name} has no selectable text. Scanned PDFs cannot be imported.`);
+        return;
+      }
+      setSourceText(text);
+      analyze(text);
+    } catch {
+      setStatus(`Could not read ${file.name}.`);
+    }
+  };
+
+  const toggleSection = (section: ImportedSectionId) => {
+    setAccepted((prev) => (prev.includes(section) ? prev.filter((item) => item !== section) : [...prev, section]));
+  };
+
+  const applySelected = () => {
+    if (!result || !accepted.length) return;
+    onApply(result.draft, accepted);
+    setResult(null);
+    setSourceText('');
+    setStatus(`Replaced ${accepted.map((section) => IMPORTED_SECTION_LABELS[section]).join(', ')}.`);
+  };
+
+  return (
+    <div className="entry-card">
+      <h3>Import Existing Resume</h3>
+      <textarea
+        className="textarea"
+        data-native-undo
+        placeholder="Paste your current resume text here"
+        value={sourceText}
+        onChange={(event) => setSourceText(event.target.value)}
+      />
+      <div className="action-row">
+        <button type="button" className="button" onClick={() => analyze(sourceText)} disabled={!sourceText.trim()}>
+          Analyze Text
+        </button>
+        <label className="button" htmlFor="resume-text-import">Upload PDF or Text File</label>
+        <input
+          id="resume-text-import"
+          className="hidden-input"
+          type="file"
+          accept="application/pdf,.pdf,text/plain,.txt"
+          onChange={handleFileChange}
+        />
+      </div>
+      {status ? <p className="inline-guidance">{status}</p> : null}
+      {result && result.sections.length ? (
+        <>
+          <p className="inline-guidance">Review each detected section. Checked sections replace the matching part of this resume.</p>
+          {result.sections.map((section) => (
+            <div key={section} className="import-review-item">
+              <label className="checklist-item">
+                <input type="checkbox" checked={accepted.includes(section)} onChange={() => toggleSection(section)} />
+                <strong>{IMPORTED_SECTION_LABELS[section]}</strong>
+              </label>
+              {describeImportedSection(result.draft, section).map((line, index) => (
+                <p key={`${section}-${index}`}>{line}</p>
+              ))}
+            </div>
+          ))}
+          <div className="action-row">
+            <button type="button" className="button button-accent" onClick={applySelected} disabled={!accepted.length}>
+              Apply Selected Sections
+            </button>
+            <button type="button" className="button" onClick={() => setResult(null)}>
+              Discard
+            </button>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+type ResumePageProps = {
+  record: ResumeRecord;
+};
+
+const usesDraftHistory = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return true;
+  const editable = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+  if (!editable) return true;
+  return Boolean(target.closest('[data-draft-form]')) && !target.closest('[data-native-undo]');
+};
+
+function BuilderPage({ record }: ResumePageProps) {
+  const [draft, setDraft, draftHistory] = useUndoableState<ResumeDraft>(record.draft);
+  const [template, setTemplate] = useState<ResumeTemplate>(record.template);
+  const [accentColor, setAccentColor] = useState(record.accentColor);
+  const [typography, setTypography] = useState<ResumeTypography>(record.typography);
+  const [sectionLayout, setSectionLayout] = useState<ResumeSectionLayout>(record.sectionLayout);
   const [technicalSkillInput, setTechnicalSkillInput] = useState('');
   const [softSkillInput, setSoftSkillInput] = useState('');
   const [toolsInput, setToolsInput] = useState('');
-  const [isSuggestingSkills, setIsSuggestingSkills] = useState(false);
+  const [showSkillSuggestions, setShowSkillSuggestions] = useState(false);
+  const [assistantSettings, setAssistantSettings] = useState(readWritingAssistantSettings);
+  const [assistantTask, setAssistantTask] = useState<string | null>(null);
+  const [assistantError, setAssistantError] = useState<{ task: string; message: string } | null>(null);
+  const [assistantHints, setAssistantHints] = useState<{ task: string; hints: string[] } | null>(null);
+  const assistantAbortRef = useRef<AbortController | null>(null);
   const [projectTechInput, setProjectTechInput] = useState<Record<string, string>>({});
   const [openProjectId, setOpenProjectId] = useState<string | null>(null);
-  const ats = useMemo(() => computeAtsResult(draft), [draft]);
-  const topImprovements = useMemo(() => computeTopImprovements(draft), [draft]);
+  const [importMessages, setImportMessages] = useState<string[]>([]);
+  const [jobDescription, setJobDescription] = useState(record.jobDescription);
+  const [atsProfileId, setAtsProfileId] = useState<AtsProfileId>(record.atsProfileId);
+  const [variant, setVariant] = useState<ResumeVariant | null>(record.variant);
+  const [baseRecord, setBaseRecord] = useState(() => (record.variant ? readResumeRecord(record.variant.baseId) : null));
+  const ats = useMemo(() => computeAtsResult(draft, atsProfileId), [draft, atsProfileId]);
+  const jobMatch = useMemo(() => computeJobMatch(draft, jobDescription), [draft, jobDescription]);
+  const topImprovements = useMemo(() => computeTopImprovements(ats), [ats]);
+  const summaryFindings = useMemo(() => analyzeWriting(draft.summary, 'summary'), [draft.summary]);
+  const contactErrors = {
+    email: getFieldError('email', draft.email),
+    phone: getFieldError('phone', draft.phone),
+    github: getFieldError('github', draft.github),
+    linkedin: getFieldError('linkedin', draft.linkedin),
+  };
+  const skillSuggestions = useMemo(() => (showSkillSuggestions ? suggestSkillsFromDraft(draft) : []), [showSkillSuggestions, draft]);
+  const sortedEducation = useMemo(() => sortByDateRange(draft.education), [draft.education]);
+  const sortedExperience = useMemo(() => sortByDateRange(draft.experience), [draft.experience]);
+  const experienceFindings = useMemo(
+    () => analyzeBulletGroups(sortedExperience.map((entry) => entry.bullets.map((bullet) => bullet.text))),
+    [sortedExperience],
+  );
+  const assistant = useMemo(() => getWritingAssistant(assistantSettings), [assistantSettings]);
+  const projectFindings = useMemo(
+    () => new Map(draft.projects.map((entry) => [entry.id, analyzeWriting(entry.description, 'description')])),
+    [draft.projects],
+  );
+  const experienceOverlaps = useMemo(
+    () => findDateOverlaps(draft.experience, (entry) => entry.company.trim() || entry.role.trim() || 'another role'),
+    [draft.experience],
+  );
 
   useEffect(() => {
-    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(draft));
-  }, [draft]);
+    setActiveResume(record.id);
+  }, [record.id]);
 
+  const { undo, redo } = draftHistory;
   useEffect(() => {
-    localStorage.setItem(TEMPLATE_STORAGE_KEY, template);
-  }, [template]);
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || !usesDraftHistory(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
 
   useEffect(() => {
-    localStorage.setItem(ACCENT_STORAGE_KEY, accentTheme.id);
-  }, [accentTheme]);
+    updateResumeRecord(record.id, { draft, template, accentColor, typography, sectionLayout, atsProfileId, jobDescription, variant });
+  }, [record.id, draft, template, accentColor, typography, sectionLayout, atsProfileId, jobDescription, variant]);
 
-  const updateEducation = (id: string, field: keyof Omit<EducationEntry, 'id'>, value: string) => {
-    setDraft((prev) => ({
-      ...prev,
-      education: prev.education.map((entry) => (entry.id === id ? { ...entry, [field]: value } : entry)),
-    }));
+  const baseId = variant?.baseId ?? null;
+  useEffect(() => {
+    if (!baseId) return;
+    const reloadBase = () => setBaseRecord(readResumeRecord(baseId));
+    const unsubscribe = subscribeAppStorage((key) => {
+      if (key === RESUME_LIBRARY_KEY) reloadBase();
+    });
+
+    window.addEventListener('focus', reloadBase);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('focus', reloadBase);
+    };
+  }, [baseId]);
+
+  const baseUpdates = useMemo(
+    () => (variant && baseRecord ? getBaseUpdates(variant.snapshot, baseRecord.draft, draft) : []),
+    [variant, baseRecord, draft],
+  );
+  const variantChanges = useMemo(() => (baseRecord ? compareDrafts(baseRecord.draft, draft) : []), [baseRecord, draft]);
+
+  const applyBaseUpdates = (keys: string[]) => {
+    if (!variant || !baseRecord) return;
+    const base = baseRecord.draft;
+    setDraft((prev) => keys.reduce((next, key) => applyDraftUnit(next, base, key), prev));
+    setVariant({ ...variant, snapshot: keys.reduce((next, key) => applyDraftUnit(next, base, key), variant.snapshot) });
   };
 
-  const updateExperience = (id: string, field: keyof Omit<ExperienceEntry, 'id'>, value: string) => {
-    setDraft((prev) => ({
-      ...prev,
-      experience: prev.experience.map((entry) => (entry.id === id ? { ...entry, [field]: value } : entry)),
-    }));
+  const ignoreBaseUpdates = (keys: string[]) => {
+    if (!variant || !baseRecord) return;
+    const base = baseRecord.draft;
+    setVariant({ ...variant, snapshot: keys.reduce((next, key) => applyDraftUnit(next, base, key), variant.snapshot) });
+  };
+
+  const detachVariant = () => {
+    if (!window.confirm('Detach this resume from its base? Base updates will no longer be offered.')) return;
+    setVariant(null);
+    setBaseRecord(null);
+  };
+
+  const updateEducation = <K extends keyof Omit<EducationEntry, 'id'>>(id: string, field: K, value: EducationEntry[K]) => {
+    setDraft(
+      (prev) => ({
+        ...prev,
+        education: prev.education.map((entry) => (entry.id === id ? { ...entry, [field]: value } : entry)),
+      }),
+      `education:${id}:${field}`,
+    );
+  };
+
+  const updateListItem = <K extends DraftListSection>(section: K, id: string, patch: Partial<ResumeDraft[K][number]>) => {
+    setDraft(
+      (prev) => ({
+        ...prev,
+        [section]: (prev[section] as ResumeDraft[K][number][]).map((item) => (item.id === id ? { ...item, ...patch } : item)),
+      }),
+      `${section}:${id}:${Object.keys(patch).join(',')}`,
+    );
+  };
+
+  const addListItem = <K extends DraftListSection>(section: K, item: ResumeDraft[K][number]) => {
+    setDraft((prev) => ({ ...prev, [section]: [...prev[section], item] }));
+  };
+
+  const removeListItem = (section: DraftListSection, id: string) => {
+    setDraft((prev) => ({ ...prev, [section]: (prev[section] as { id: string }[]).filter((item) => item.id !== id) }));
+  };
+
+  const updateCustomSectionItems = (sectionId: string, update: (items: CustomSectionItem[]) => CustomSectionItem[], groupKey?: string) => {
+    setDraft(
+      (prev) => ({
+        ...prev,
+        customSections: prev.customSections.map((section) => (section.id === sectionId ? { ...section, items: update(section.items) } : section)),
+      }),
+      groupKey,
+    );
+  };
+
+  const renderListField = <K extends DraftListSection>(
+    section: K,
+    entry: ResumeDraft[K][number],
+    field: Exclude<keyof ResumeDraft[K][number], 'id'> & string,
+    placeholder: string,
+    multiline = false,
+  ) => {
+    const props = {
+      className: multiline ? 'textarea' : 'input',
+      placeholder,
+      value: String(entry[field]),
+      onChange: (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+        updateListItem(section, entry.id, { [field]: event.target.value } as Partial<ResumeDraft[K][number]>),
+    };
+    return multiline ? <textarea {...props} /> : <input {...props} />;
+  };
+
+  const updateExperienceEntry = (id: string, update: (entry: ExperienceEntry) => ExperienceEntry, groupKey?: string) => {
+    setDraft(
+      (prev) => ({
+        ...prev,
+        experience: prev.experience.map((entry) => (entry.id === id ? update(entry) : entry)),
+      }),
+      groupKey,
+    );
+  };
+
+  const updateExperience = <K extends keyof Omit<ExperienceEntry, 'id' | 'bullets'>>(id: string, field: K, value: ExperienceEntry[K]) => {
+    updateExperienceEntry(id, (entry) => ({ ...entry, [field]: value }), `experience:${id}:${field}`);
+  };
+
+  const updateExperienceBullet = (id: string, bulletId: string, text: string) => {
+    updateExperienceEntry(
+      id,
+      (entry) => ({ ...entry, bullets: entry.bullets.map((bullet) => (bullet.id === bulletId ? { ...bullet, text } : bullet)) }),
+      `experience:${id}:bullets:${bulletId}`,
+    );
+  };
+
+  const addExperienceBullet = (id: string) => {
+    updateExperienceEntry(id, (entry) => ({ ...entry, bullets: [...entry.bullets, createExperienceBullet()] }));
+  };
+
+  const removeExperienceBullet = (id: string, bulletId: string) => {
+    updateExperienceEntry(id, (entry) => {
+      const bullets = entry.bullets.filter((bullet) => bullet.id !== bulletId);
+      return { ...entry, bullets: bullets.length ? bullets : [createExperienceBullet()] };
+    });
+  };
+
+  const moveExperienceBullet = (id: string, bulletId: string, offset: -1 | 1) => {
+    updateExperienceEntry(id, (entry) => {
+      const index = entry.bullets.findIndex((bullet) => bullet.id === bulletId);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= entry.bullets.length) return entry;
+      const bullets = [...entry.bullets];
+      [bullets[index], bullets[target]] = [bullets[target], bullets[index]];
+      return { ...entry, bullets };
+    });
   };
 
   const updateProject = (id: string, field: 'title' | 'description' | 'liveUrl' | 'githubUrl', value: string) => {
-    setDraft((prev) => ({
-      ...prev,
-      projects: prev.projects.map((entry) => (entry.id === id ? { ...entry, [field]: value } : entry)),
-    }));
+    setDraft(
+      (prev) => ({
+        ...prev,
+        projects: prev.projects.map((entry) => (entry.id === id ? { ...entry, [field]: value } : entry)),
+      }),
+      `projects:${id}:${field}`,
+    );
+  };
+
+  const updateField = (field: 'name' | 'email' | 'phone' | 'location' | 'summary' | 'github' | 'linkedin', value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }), field);
   };
 
   const loadSampleData = () => {
@@ -1234,15 +6799,18 @@ function BuilderPage() {
       location: 'Bengaluru, India',
       summary: 'Frontend engineer focused on clean, measurable product UX.',
       education: [
-        { id: crypto.randomUUID(), school: 'KodNest Academy', degree: 'B.Tech CSE', year: '2026' },
+        { id: crypto.randomUUID(), school: 'KodNest Academy', degree: 'B.Tech CSE', dates: parseDateRange('Aug 2022 - May 2026') },
       ],
       experience: [
         {
           id: crypto.randomUUID(),
           company: 'Acme Labs',
           role: 'Frontend Intern',
-          duration: '2025',
-          bullet: 'Improved dashboard load speed by 32% for 500+ daily users.',
+          dates: parseDateRange('Jan 2025 - Jun 2025'),
+          bullets: [
+            createExperienceBullet('Improved dashboard load speed by 32% for 500+ daily users.'),
+            createExperienceBullet('Built reusable form components adopted across 4 product teams.'),
+          ],
         },
       ],
       projects: [
@@ -1253,6 +6821,7 @@ function BuilderPage() {
           techStack: ['React', 'TypeScript', 'Node.js'],
           liveUrl: 'https://example.com/placement-platform',
           githubUrl: 'https://github.com/shreenivas-nayakawadi/placement-platform',
+          hidden: false,
         },
         {
           id: crypto.randomUUID(),
@@ -1261,21 +6830,54 @@ function BuilderPage() {
           techStack: ['TypeScript', 'GraphQL', 'PostgreSQL'],
           liveUrl: '',
           githubUrl: 'https://github.com/shreenivas-nayakawadi/resume-analyzer',
+          hidden: false,
         },
       ],
       technicalSkills: ['React', 'TypeScript', 'Node.js', 'PostgreSQL', 'GraphQL'],
       softSkills: ['Team Leadership', 'Problem Solving'],
       toolsTechnologies: ['Git', 'Docker', 'AWS'],
+      certifications: [
+        {
+          id: crypto.randomUUID(),
+          name: 'AWS Certified Cloud Practitioner',
+          issuer: 'Amazon Web Services',
+          date: { month: 3, year: 2025 },
+          credentialUrl: 'https://www.credly.com/badges/example',
+        },
+      ],
+      awards: [],
+      languages: [
+        { id: crypto.randomUUID(), language: 'English', proficiency: 'Fluent' },
+        { id: crypto.randomUUID(), language: 'Kannada', proficiency: 'Native' },
+      ],
+      volunteering: [],
+      publications: [],
+      customSections: [],
       github: 'https://github.com/shreenivas-nayakawadi',
       linkedin: 'https://linkedin.com/in/shreenivas',
     });
   };
 
+  const handleJsonResumeImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const result = fromJsonResume(JSON.parse(await file.text()));
+      setDraft(result.draft);
+      setOpenProjectId(null);
+      setImportMessages([`Imported ${file.name}.`, ...result.warnings]);
+    } catch (error) {
+      setImportMessages([`Could not import ${file.name}: ${error instanceof Error ? error.message : 'invalid JSON.'}`]);
+    }
+  };
+
   const addUniqueChip = (existing: string[], value: string) => {
-    const normalized = value.trim();
-    if (!normalized) return existing;
-    if (existing.some((item) => item.toLowerCase() === normalized.toLowerCase())) return existing;
-    return [...existing, normalized];
+    const trimmed = value.trim();
+    if (!trimmed) return existing;
+    const key = toSkillKey(trimmed);
+    if (existing.some((item) => toSkillKey(item) === key)) return existing;
+    return [...existing, trimmed];
   };
 
   const removeChip = (existing: string[], value: string) =>
@@ -1285,17 +6887,74 @@ function BuilderPage() {
     setDraft((prev) => ({ ...prev, [category]: addUniqueChip(prev[category], rawValue) }));
   };
 
-  const suggestSkills = () => {
-    setIsSuggestingSkills(true);
-    window.setTimeout(() => {
-      setDraft((prev) => ({
-        ...prev,
-        technicalSkills: TECHNICAL_SUGGESTIONS.reduce((list, skill) => addUniqueChip(list, skill), prev.technicalSkills),
-        softSkills: SOFT_SUGGESTIONS.reduce((list, skill) => addUniqueChip(list, skill), prev.softSkills),
-        toolsTechnologies: TOOLS_SUGGESTIONS.reduce((list, skill) => addUniqueChip(list, skill), prev.toolsTechnologies),
-      }));
-      setIsSuggestingSkills(false);
-    }, 1000);
+  const changeTemplate = (next: ResumeTemplate) => {
+    setSectionLayout((prev) => withTemplateSectionOrder(prev, template, next));
+    setTemplate(next);
+  };
+
+  const updateAssistantSettings = (settings: WritingAssistantSettings) => {
+    setAssistantSettings(settings);
+    writeWritingAssistantSettings(settings);
+  };
+
+  const runAssistant = async <T,>(task: string, request: (signal: AbortSignal) => Promise<T>, apply: (value: T) => void) => {
+    const controller = new AbortController();
+    assistantAbortRef.current = controller;
+    setAssistantTask(task);
+    setAssistantError(null);
+    setAssistantHints(null);
+    try {
+      const result = await request(controller.signal);
+      if (!controller.signal.aborted) apply(result);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setAssistantError({ task, message: `Writing assistant failed: ${error instanceof Error ? error.message : String(error)}` });
+      }
+    } finally {
+      if (assistantAbortRef.current === controller) assistantAbortRef.current = null;
+      setAssistantTask(null);
+    }
+  };
+
+  const cancelAssistant = () => {
+    assistantAbortRef.current?.abort();
+  };
+
+  useEffect(() => () => assistantAbortRef.current?.abort(), []);
+
+  const renderAssistantCancel = (task: string) =>
+    assistantTask === task ? (
+      <button type="button" className="button" onClick={cancelAssistant}>
+        Cancel
+      </button>
+    ) : null;
+
+  const renderAssistantFeedback = (task: string) => (
+    <>
+      {assistantError?.task === task ? (
+        <p className="inline-guidance field-error" role="alert">
+          {assistantError.message}
+        </p>
+      ) : null}
+      {assistantHints?.task === task
+        ? assistantHints.hints.map((hint) => (
+            <p key={hint} className="inline-guidance">
+              {hint}
+            </p>
+          ))
+        : null}
+    </>
+  );
+
+  const addSuggestedSkills = (suggestions: SkillSuggestion[]) => {
+    setDraft((prev) =>
+      suggestions.reduce(
+        (next, suggestion) => {
+          const field = SKILL_CATEGORY_FIELDS[suggestion.category];
+          return { ...next, [field]: addUniqueChip(next[field], suggestion.name) };
+        },
+        prev,
+      ));
   };
 
   const addProjectTechChip = (projectId: string, rawValue: string) => {
@@ -1324,6 +6983,13 @@ function BuilderPage() {
     setOpenProjectId(newProject.id);
   };
 
+  const toggleProjectHidden = (projectId: string, hidden: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      projects: prev.projects.map((entry) => (entry.id === projectId ? { ...entry, hidden } : entry)),
+    }));
+  };
+
   const deleteProject = (projectId: string) => {
     setDraft((prev) => ({
       ...prev,
@@ -1341,32 +7007,97 @@ function BuilderPage() {
     <div className="app-shell">
       <header className="top-bar">
         <div className="top-bar__left">AI Resume Builder</div>
-        <div className="top-bar__center">Builder</div>
+        <div className="top-bar__center">Builder - {record.name}</div>
         <span className="status-badge">In Progress</span>
       </header>
       <ProductNav />
       <section className="workspace">
-        <main className="workspace-main">
+        <main className="workspace-main" data-draft-form>
           <h2>Builder</h2>
-          <button type="button" className="button button-accent" onClick={loadSampleData}>
-            Load Sample Data
-          </button>
+          {variant ? (
+            <VariantPanel
+              baseName={baseRecord?.name ?? null}
+              updates={baseUpdates}
+              changes={variantChanges}
+              onApply={applyBaseUpdates}
+              onIgnore={ignoreBaseUpdates}
+              onDetach={detachVariant}
+            />
+          ) : null}
+          <div className="action-row">
+            <button type="button" className="button button-accent" onClick={loadSampleData}>
+              Load Sample Data
+            </button>
+            <button type="button" className="button" onClick={undo} disabled={!draftHistory.canUndo} title="Undo (Ctrl+Z)">
+              Undo
+            </button>
+            <button type="button" className="button" onClick={redo} disabled={!draftHistory.canRedo} title="Redo (Ctrl+Shift+Z)">
+              Redo
+            </button>
+            <label className="button" htmlFor="json-resume-import">Import JSON Resume</label>
+            <input
+              id="json-resume-import"
+              className="hidden-input"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleJsonResumeImport}
+            />
+          </div>
+          {importMessages.map((message, index) => (
+            <p key={`${index}-${message}`} className="inline-guidance">{message}</p>
+          ))}
+          <ResumeTextImportPanel
+            onApply={(imported, sections) => {
+              setDraft((prev) => applyImportedSections(prev, imported, sections));
+              setOpenProjectId(null);
+            }}
+          />
 
           <h3>Personal Info</h3>
-          <input className="input" placeholder="Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
-          <input className="input" placeholder="Email" value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} />
-          <input className="input" placeholder="Phone" value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} />
-          <input className="input" placeholder="Location" value={draft.location} onChange={(e) => setDraft({ ...draft, location: e.target.value })} />
+          <input className="input" placeholder="Name" value={draft.name} onChange={(e) => updateField('name', e.target.value)} />
+          <input
+            className="input"
+            type="email"
+            placeholder="Email"
+            value={draft.email}
+            aria-invalid={Boolean(contactErrors.email)}
+            onChange={(e) => updateField('email', e.target.value)}
+          />
+          {contactErrors.email ? <p className="inline-guidance field-error">{contactErrors.email}</p> : null}
+          <input
+            className="input"
+            type="tel"
+            placeholder="Phone (include the country code, e.g. +1)"
+            value={draft.phone}
+            aria-invalid={Boolean(contactErrors.phone)}
+            onChange={(e) => updateField('phone', e.target.value)}
+          />
+          {contactErrors.phone ? <p className="inline-guidance field-error">{contactErrors.phone}</p> : null}
+          <input className="input" placeholder="Location" value={draft.location} onChange={(e) => updateField('location', e.target.value)} />
 
           <h3>Summary</h3>
-          <textarea className="textarea" value={draft.summary} onChange={(e) => setDraft({ ...draft, summary: e.target.value })} />
+          <textarea className="textarea" value={draft.summary} onChange={(e) => updateField('summary', e.target.value)} />
+          <WritingFindings findings={summaryFindings} />
+          <button
+            type="button"
+            className="button"
+            disabled={assistantTask !== null}
+            onClick={() => runAssistant('summary', (signal) => assistant.draftSummary(draft, signal), (summary) => setDraft((prev) => ({ ...prev, summary })))}
+          >
+            {assistantTask === 'summary' ? 'Drafting...' : 'Draft Summary'}
+          </button>
+          {renderAssistantCancel('summary')}
+          {renderAssistantFeedback('summary')}
 
           <h3>Education</h3>
-          {draft.education.map((entry) => (
+          {sortedEducation.map((entry) => (
             <div key={entry.id} className="entry-card">
               <input className="input" placeholder="School" value={entry.school} onChange={(e) => updateEducation(entry.id, 'school', e.target.value)} />
               <input className="input" placeholder="Degree" value={entry.degree} onChange={(e) => updateEducation(entry.id, 'degree', e.target.value)} />
-              <input className="input" placeholder="Year" value={entry.year} onChange={(e) => updateEducation(entry.id, 'year', e.target.value)} />
+              <DateRangeFields range={entry.dates} currentLabel="Currently studying" onChange={(dates) => updateEducation(entry.id, 'dates', dates)} />
+              {getDateRangeIssues(entry.dates, 'education').map((issue) => (
+                <p key={`${entry.id}-${issue}`} className="inline-guidance date-issue">{issue}</p>
+              ))}
             </div>
           ))}
           <button
@@ -1378,15 +7109,68 @@ function BuilderPage() {
           </button>
 
           <h3>Experience</h3>
-          {draft.experience.map((entry) => (
+          {sortedExperience.map((entry, entryIndex) => (
             <div key={entry.id} className="entry-card">
               <input className="input" placeholder="Company" value={entry.company} onChange={(e) => updateExperience(entry.id, 'company', e.target.value)} />
               <input className="input" placeholder="Role" value={entry.role} onChange={(e) => updateExperience(entry.id, 'role', e.target.value)} />
-              <input className="input" placeholder="Duration" value={entry.duration} onChange={(e) => updateExperience(entry.id, 'duration', e.target.value)} />
-              <textarea className="textarea" placeholder="Impact bullet" value={entry.bullet} onChange={(e) => updateExperience(entry.id, 'bullet', e.target.value)} />
-              {getBulletGuidance(entry.bullet).map((hint) => (
-                <p key={`${entry.id}-${hint}`} className="inline-guidance">{hint}</p>
+              <DateRangeFields range={entry.dates} currentLabel="I currently work here" onChange={(dates) => updateExperience(entry.id, 'dates', dates)} />
+              {[
+                ...getDateRangeIssues(entry.dates, 'experience'),
+                ...(experienceOverlaps[entry.id] ?? []).map((label) => `Dates overlap with ${label}.`),
+              ].map((issue) => (
+                <p key={`${entry.id}-${issue}`} className="inline-guidance date-issue">{issue}</p>
               ))}
+              {entry.bullets.map((bullet, index) => (
+                <div key={bullet.id} className="bullet-editor">
+                  <textarea
+                    className="textarea"
+                    placeholder={`Impact bullet ${index + 1}`}
+                    value={bullet.text}
+                    onChange={(e) => updateExperienceBullet(entry.id, bullet.id, e.target.value)}
+                  />
+                  <WritingFindings findings={experienceFindings[entryIndex]?.[index] ?? []} />
+                  <div className="bullet-editor__actions">
+                    <button type="button" className="button" disabled={index === 0} onClick={() => moveExperienceBullet(entry.id, bullet.id, -1)}>
+                      Move Up
+                    </button>
+                    <button
+                      type="button"
+                      className="button"
+                      disabled={index === entry.bullets.length - 1}
+                      onClick={() => moveExperienceBullet(entry.id, bullet.id, 1)}
+                    >
+                      Move Down
+                    </button>
+                    <button
+                      type="button"
+                      className="button"
+                      disabled={!bullet.text.trim() || assistantTask !== null}
+                      onClick={() =>
+                        runAssistant(
+                          `bullet:${bullet.id}`,
+                          (signal) => assistant.rewriteBullet(bullet.text, { role: entry.role, company: entry.company }, signal),
+                          (rewrite) => {
+                            updateExperienceEntry(entry.id, (current) => ({
+                              ...current,
+                              bullets: current.bullets.map((item) => (item.id === bullet.id && item.text === bullet.text ? { ...item, text: rewrite.text } : item)),
+                            }));
+                            setAssistantHints({ task: `bullet:${bullet.id}`, hints: rewrite.hints });
+                          },
+                        )}
+                    >
+                      {assistantTask === `bullet:${bullet.id}` ? 'Rewriting...' : 'Rewrite'}
+                    </button>
+                    {renderAssistantCancel(`bullet:${bullet.id}`)}
+                    <button type="button" className="button" onClick={() => removeExperienceBullet(entry.id, bullet.id)}>
+                      Remove
+                    </button>
+                  </div>
+                  {renderAssistantFeedback(`bullet:${bullet.id}`)}
+                </div>
+              ))}
+              <button type="button" className="button" onClick={() => addExperienceBullet(entry.id)}>
+                Add Bullet
+              </button>
             </div>
           ))}
           <button
@@ -1398,14 +7182,40 @@ function BuilderPage() {
           </button>
 
           <h3>Skills</h3>
-          <button type="button" className="button" onClick={suggestSkills} disabled={isSuggestingSkills}>
-            {isSuggestingSkills ? 'Suggesting...' : '✨ Suggest Skills'}
+          <button type="button" className="button" onClick={() => setShowSkillSuggestions((value) => !value)}>
+            {showSkillSuggestions ? 'Hide Suggestions' : '✨ Suggest Skills'}
           </button>
+          {showSkillSuggestions ? (
+            <div className="entry-card">
+              {skillSuggestions.length === 0 ? (
+                <p className="inline-guidance">
+                  No new skills found. Name the tools you used in project tech stacks or experience bullets to get suggestions.
+                </p>
+              ) : (
+                <>
+                  {skillSuggestions.map((suggestion) => (
+                    <div key={suggestion.name} className="skill-suggestion">
+                      <button type="button" className="chip" onClick={() => addSuggestedSkills([suggestion])}>
+                        + {suggestion.name}
+                      </button>
+                      <span className="inline-guidance">
+                        {SKILL_CATEGORY_LABELS[suggestion.category]}. {suggestion.reason}
+                      </span>
+                    </div>
+                  ))}
+                  <button type="button" className="button" onClick={() => addSuggestedSkills(skillSuggestions)}>
+                    Add All
+                  </button>
+                </>
+              )}
+            </div>
+          ) : null}
 
           <div className="entry-card">
             <h3>Technical Skills ({draft.technicalSkills.length})</h3>
             <input
               className="input"
+              data-native-undo
               placeholder="Type skill and press Enter"
               value={technicalSkillInput}
               onChange={(e) => setTechnicalSkillInput(e.target.value)}
@@ -1416,19 +7226,14 @@ function BuilderPage() {
                 setTechnicalSkillInput('');
               }}
             />
-            <div className="chip-wrap">
-              {draft.technicalSkills.map((skill) => (
-                <button key={skill} type="button" className="chip" onClick={() => setDraft((prev) => ({ ...prev, technicalSkills: removeChip(prev.technicalSkills, skill) }))}>
-                  {skill} x
-                </button>
-              ))}
-            </div>
+            <SkillChips skills={draft.technicalSkills} onChange={(technicalSkills) => setDraft((prev) => ({ ...prev, technicalSkills }))} />
           </div>
 
           <div className="entry-card">
             <h3>Soft Skills ({draft.softSkills.length})</h3>
             <input
               className="input"
+              data-native-undo
               placeholder="Type skill and press Enter"
               value={softSkillInput}
               onChange={(e) => setSoftSkillInput(e.target.value)}
@@ -1439,19 +7244,14 @@ function BuilderPage() {
                 setSoftSkillInput('');
               }}
             />
-            <div className="chip-wrap">
-              {draft.softSkills.map((skill) => (
-                <button key={skill} type="button" className="chip" onClick={() => setDraft((prev) => ({ ...prev, softSkills: removeChip(prev.softSkills, skill) }))}>
-                  {skill} x
-                </button>
-              ))}
-            </div>
+            <SkillChips skills={draft.softSkills} onChange={(softSkills) => setDraft((prev) => ({ ...prev, softSkills }))} />
           </div>
 
           <div className="entry-card">
             <h3>Tools & Technologies ({draft.toolsTechnologies.length})</h3>
             <input
               className="input"
+              data-native-undo
               placeholder="Type tool and press Enter"
               value={toolsInput}
               onChange={(e) => setToolsInput(e.target.value)}
@@ -1462,13 +7262,7 @@ function BuilderPage() {
                 setToolsInput('');
               }}
             />
-            <div className="chip-wrap">
-              {draft.toolsTechnologies.map((skill) => (
-                <button key={skill} type="button" className="chip" onClick={() => setDraft((prev) => ({ ...prev, toolsTechnologies: removeChip(prev.toolsTechnologies, skill) }))}>
-                  {skill} x
-                </button>
-              ))}
-            </div>
+            <SkillChips skills={draft.toolsTechnologies} onChange={(toolsTechnologies) => setDraft((prev) => ({ ...prev, toolsTechnologies }))} />
           </div>
 
           <h3>Projects</h3>
@@ -1481,6 +7275,14 @@ function BuilderPage() {
                   <button type="button" className="button" onClick={() => setOpenProjectId(isOpen ? null : entry.id)}>
                     {entry.title.trim() || `Project ${index + 1}`}
                   </button>
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={entry.hidden}
+                      onChange={(event) => toggleProjectHidden(entry.id, event.target.checked)}
+                    />
+                    Hide in this resume
+                  </label>
                   <button type="button" className="button" onClick={() => deleteProject(entry.id)}>
                     Delete
                   </button>
@@ -1491,16 +7293,34 @@ function BuilderPage() {
                     <textarea
                       className="textarea"
                       placeholder="Description"
-                      maxLength={200}
+                      maxLength={PROJECT_DESCRIPTION_LIMIT}
                       value={entry.description}
                       onChange={(e) => updateProject(entry.id, 'description', e.target.value)}
                     />
-                    <p className="inline-guidance">{entry.description.length}/200</p>
-                    {getBulletGuidance(entry.description).map((hint) => (
-                      <p key={`${entry.id}-${hint}`} className="inline-guidance">{hint}</p>
-                    ))}
+                    <p className="inline-guidance">{entry.description.length}/{PROJECT_DESCRIPTION_LIMIT}</p>
+                    <WritingFindings findings={projectFindings.get(entry.id) ?? []} />
+                    <button
+                      type="button"
+                      className="button"
+                      disabled={!entry.description.trim() || assistantTask !== null}
+                      onClick={() =>
+                        runAssistant(
+                          `project:${entry.id}`,
+                          (signal) => assistant.shortenDescription(entry.description, PROJECT_DESCRIPTION_LIMIT, signal),
+                          (description) =>
+                            setDraft((prev) => ({
+                              ...prev,
+                              projects: prev.projects.map((item) => (item.id === entry.id ? { ...item, description } : item)),
+                            })),
+                        )}
+                    >
+                      {assistantTask === `project:${entry.id}` ? 'Shortening...' : 'Shorten'}
+                    </button>
+                    {renderAssistantCancel(`project:${entry.id}`)}
+                    {renderAssistantFeedback(`project:${entry.id}`)}
                     <input
                       className="input"
+                      data-native-undo
                       placeholder="Add tech and press Enter"
                       value={projectTechInput[entry.id] ?? ''}
                       onChange={(e) => setProjectTechInput((prev) => ({ ...prev, [entry.id]: e.target.value }))}
@@ -1518,27 +7338,215 @@ function BuilderPage() {
                         </button>
                       ))}
                     </div>
-                    <input className="input" placeholder="Live URL (optional)" value={entry.liveUrl} onChange={(e) => updateProject(entry.id, 'liveUrl', e.target.value)} />
-                    <input className="input" placeholder="GitHub URL (optional)" value={entry.githubUrl} onChange={(e) => updateProject(entry.id, 'githubUrl', e.target.value)} />
+                    <input
+                      className="input"
+                      type="url"
+                      placeholder="Live URL (optional)"
+                      value={entry.liveUrl}
+                      aria-invalid={Boolean(getFieldError('url', entry.liveUrl))}
+                      onChange={(e) => updateProject(entry.id, 'liveUrl', e.target.value)}
+                    />
+                    {getFieldError('url', entry.liveUrl) ? <p className="inline-guidance field-error">{getFieldError('url', entry.liveUrl)}</p> : null}
+                    <input
+                      className="input"
+                      type="url"
+                      placeholder="GitHub URL (optional)"
+                      value={entry.githubUrl}
+                      aria-invalid={Boolean(getFieldError('github', entry.githubUrl))}
+                      onChange={(e) => updateProject(entry.id, 'githubUrl', e.target.value)}
+                    />
+                    {getFieldError('github', entry.githubUrl) ? (
+                      <p className="inline-guidance field-error">{getFieldError('github', entry.githubUrl)}</p>
+                    ) : null}
                   </>
                 ) : null}
               </div>
             );
           })}
 
+          <h3>Certifications</h3>
+          {draft.certifications.map((entry) => (
+            <div key={entry.id} className="entry-card">
+              {renderListField('certifications', entry, 'name', 'Certification name')}
+              {renderListField('certifications', entry, 'issuer', 'Issuing organization')}
+              <MonthYearField label="Issued" date={entry.date} onChange={(date) => updateListItem('certifications', entry.id, { date })} />
+              {renderListField('certifications', entry, 'credentialUrl', 'Credential URL (optional)')}
+              <button type="button" className="button" onClick={() => removeListItem('certifications', entry.id)}>Remove</button>
+            </div>
+          ))}
+          <button type="button" className="button" onClick={() => addListItem('certifications', createCertificationEntry())}>
+            Add Certification
+          </button>
+
+          <h3>Awards</h3>
+          {draft.awards.map((entry) => (
+            <div key={entry.id} className="entry-card">
+              {renderListField('awards', entry, 'title', 'Award title')}
+              {renderListField('awards', entry, 'issuer', 'Awarded by')}
+              <MonthYearField label="Received" date={entry.date} onChange={(date) => updateListItem('awards', entry.id, { date })} />
+              {renderListField('awards', entry, 'description', 'What it was for (optional)', true)}
+              <button type="button" className="button" onClick={() => removeListItem('awards', entry.id)}>Remove</button>
+            </div>
+          ))}
+          <button type="button" className="button" onClick={() => addListItem('awards', createAwardEntry())}>
+            Add Award
+          </button>
+
+          <h3>Languages</h3>
+          {draft.languages.map((entry) => (
+            <div key={entry.id} className="entry-card">
+              {renderListField('languages', entry, 'language', 'Language')}
+              <select
+                className="input"
+                aria-label="Proficiency"
+                value={entry.proficiency}
+                onChange={(e) => updateListItem('languages', entry.id, { proficiency: toLanguageProficiency(e.target.value) })}
+              >
+                <option value="">Proficiency</option>
+                {LANGUAGE_PROFICIENCIES.map((level) => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+              <button type="button" className="button" onClick={() => removeListItem('languages', entry.id)}>Remove</button>
+            </div>
+          ))}
+          <button type="button" className="button" onClick={() => addListItem('languages', createLanguageEntry())}>
+            Add Language
+          </button>
+
+          <h3>Volunteering</h3>
+          {draft.volunteering.map((entry) => (
+            <div key={entry.id} className="entry-card">
+              {renderListField('volunteering', entry, 'organization', 'Organization')}
+              {renderListField('volunteering', entry, 'role', 'Role')}
+              <DateRangeFields range={entry.dates} currentLabel="Ongoing" onChange={(dates) => updateListItem('volunteering', entry.id, { dates })} />
+              {renderListField('volunteering', entry, 'description', 'What you did', true)}
+              <button type="button" className="button" onClick={() => removeListItem('volunteering', entry.id)}>Remove</button>
+            </div>
+          ))}
+          <button type="button" className="button" onClick={() => addListItem('volunteering', createVolunteerEntry())}>
+            Add Volunteering
+          </button>
+
+          <h3>Publications</h3>
+          {draft.publications.map((entry) => (
+            <div key={entry.id} className="entry-card">
+              {renderListField('publications', entry, 'title', 'Title')}
+              {renderListField('publications', entry, 'publisher', 'Publisher or venue')}
+              <MonthYearField label="Published" date={entry.date} onChange={(date) => updateListItem('publications', entry.id, { date })} />
+              {renderListField('publications', entry, 'url', 'URL (optional)')}
+              <button type="button" className="button" onClick={() => removeListItem('publications', entry.id)}>Remove</button>
+            </div>
+          ))}
+          <button type="button" className="button" onClick={() => addListItem('publications', createPublicationEntry())}>
+            Add Publication
+          </button>
+
+          <h3>Custom Sections</h3>
+          {draft.customSections.map((section) => (
+            <div key={section.id} className="entry-card">
+              {renderListField('customSections', section, 'title', 'Section title, e.g. Hackathons')}
+              {section.items.map((item) => (
+                <div key={item.id} className="bullet-editor">
+                  <input
+                    className="input"
+                    placeholder="Item title"
+                    value={item.title}
+                    onChange={(e) =>
+                      updateCustomSectionItems(
+                        section.id,
+                        (items) => items.map((entry) => (entry.id === item.id ? { ...entry, title: e.target.value } : entry)),
+                        `customSections:${item.id}:title`,
+                      )}
+                  />
+                  <input
+                    className="input"
+                    placeholder="Subtitle (optional)"
+                    value={item.subtitle}
+                    onChange={(e) =>
+                      updateCustomSectionItems(
+                        section.id,
+                        (items) => items.map((entry) => (entry.id === item.id ? { ...entry, subtitle: e.target.value } : entry)),
+                        `customSections:${item.id}:subtitle`,
+                      )}
+                  />
+                  <textarea
+                    className="textarea"
+                    placeholder="Description (optional)"
+                    value={item.description}
+                    onChange={(e) =>
+                      updateCustomSectionItems(
+                        section.id,
+                        (items) => items.map((entry) => (entry.id === item.id ? { ...entry, description: e.target.value } : entry)),
+                        `customSections:${item.id}:description`,
+                      )}
+                  />
+                  <button
+                    type="button"
+                    className="button"
+                    onClick={() => updateCustomSectionItems(section.id, (items) => items.filter((entry) => entry.id !== item.id))}
+                  >
+                    Remove Item
+                  </button>
+                </div>
+              ))}
+              <div className="bullet-editor__actions">
+                <button
+                  type="button"
+                  className="button"
+                  onClick={() => updateCustomSectionItems(section.id, (items) => [...items, createCustomSectionItem()])}
+                >
+                  Add Item
+                </button>
+                <button type="button" className="button" onClick={() => removeListItem('customSections', section.id)}>
+                  Remove Section
+                </button>
+              </div>
+            </div>
+          ))}
+          <button type="button" className="button" onClick={() => addListItem('customSections', createCustomSection())}>
+            Add Custom Section
+          </button>
+
           <h3>Links</h3>
-          <input className="input" placeholder="GitHub" value={draft.github} onChange={(e) => setDraft({ ...draft, github: e.target.value })} />
-          <input className="input" placeholder="LinkedIn" value={draft.linkedin} onChange={(e) => setDraft({ ...draft, linkedin: e.target.value })} />
+          <input
+            className="input"
+            type="url"
+            placeholder="GitHub (https://github.com/user)"
+            value={draft.github}
+            aria-invalid={Boolean(contactErrors.github)}
+            onChange={(e) => updateField('github', e.target.value)}
+          />
+          {contactErrors.github ? <p className="inline-guidance field-error">{contactErrors.github}</p> : null}
+          <input
+            className="input"
+            type="url"
+            placeholder="LinkedIn (https://www.linkedin.com/in/your-name)"
+            value={draft.linkedin}
+            aria-invalid={Boolean(contactErrors.linkedin)}
+            onChange={(e) => updateField('linkedin', e.target.value)}
+          />
+          {contactErrors.linkedin ? <p className="inline-guidance field-error">{contactErrors.linkedin}</p> : null}
         </main>
         <aside className="workspace-side">
+          <ResumeLibraryPanel currentId={record.id} basePath="/builder" />
           <h3>Templates</h3>
-          <TemplateTabs template={template} onChange={setTemplate} />
-          <ColorThemePicker selected={accentTheme} onChange={setAccentTheme} />
+          <TemplateTabs template={template} onChange={changeTemplate} />
+          <ColorThemePicker color={accentColor} onChange={setAccentColor} />
+          <h3>Typography</h3>
+          <TypographyControls typography={typography} onChange={setTypography} />
+          <h3>Writing Assistant</h3>
+          <WritingAssistantPanel settings={assistantSettings} onChange={updateAssistantSettings} />
+          <h3>Sections</h3>
+          <p className="inline-guidance">Drag to reorder. Hidden sections stay saved but are left out of the preview and exports.</p>
+          <SectionLayoutEditor layout={sectionLayout} onChange={setSectionLayout} />
           <h3>ATS Readiness Score</h3>
+          <AtsProfilePicker profileId={atsProfileId} onChange={setAtsProfileId} />
           <div className="score-card">
             <div className="score-row">
               <strong>{ats.score}</strong>
               <span>/ 100</span>
+              {jobMatch ? <span className="job-match-badge">Job Match {jobMatch.score}%</span> : null}
             </div>
             <div className="score-meter" aria-label="ATS Readiness Score">
               <div className="score-meter__fill" style={{ width: `${ats.score}%` }} />
@@ -1550,6 +7558,7 @@ function BuilderPage() {
                 ats.suggestions.map((suggestion) => <p key={suggestion}>{suggestion}</p>)
               )}
             </div>
+            <AtsBreakdown result={ats} />
             <h3>Top 3 Improvements</h3>
             <div className="suggestions">
               {topImprovements.length === 0 ? (
@@ -1559,53 +7568,116 @@ function BuilderPage() {
               )}
             </div>
           </div>
+          <h3>Job Description Match</h3>
+          <div className="score-card">
+            <textarea
+              className="textarea"
+              placeholder="Paste the job description you are applying for"
+              value={jobDescription}
+              onChange={(event) => setJobDescription(event.target.value)}
+            />
+            {jobMatch ? (
+              <JobMatchDetails report={jobMatch} />
+            ) : (
+              <p className="inline-guidance">Paste a job description to see which of its keywords your resume covers.</p>
+            )}
+          </div>
           <h3>Live Preview</h3>
-          <ResumePreviewDocument draft={draft} template={template} accentColor={accentTheme.color} />
+          <ResumePreviewDocument
+            draft={draft}
+            template={template}
+            accentColor={accentColor}
+            typography={typography}
+            sectionLayout={sectionLayout}
+          />
         </aside>
       </section>
     </div>
   );
 }
 
-function CleanPreviewPage() {
-  const [draft, setDraft] = useState<ResumeDraft>(() => readResumeDraft());
-  const [template, setTemplate] = useState<ResumeTemplate>(() => readTemplateChoice());
-  const [accentTheme, setAccentTheme] = useState<AccentTheme>(() => readAccentChoice());
-  const [warning, setWarning] = useState('');
+function CleanPreviewPage({ record }: ResumePageProps) {
+  const [name, setName] = useState(record.name);
+  const [draft, setDraft] = useState<ResumeDraft>(record.draft);
+  const [template, setTemplate] = useState<ResumeTemplate>(record.template);
+  const [accentColor, setAccentColor] = useState(record.accentColor);
+  const [typography, setTypography] = useState<ResumeTypography>(record.typography);
+  const [pageSize, setPageSize] = useState<PageSizeId>(record.pageSize);
+  const [fitToOnePage, setFitToOnePage] = useState(record.fitToOnePage);
+  const [previewLayout, setPreviewLayout] = useState<PreviewLayout | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
   const [copyState, setCopyState] = useState('');
+  const [sectionLayout, setSectionLayout] = useState<ResumeSectionLayout>(record.sectionLayout);
+  const [textFormat, setTextFormat] = useState<ResumeTextFormat>('text');
   const [pdfToast, setPdfToast] = useState('');
-  const ats = useMemo(() => computeAtsResult(draft), [draft]);
+  const [jobDescription, setJobDescription] = useState(record.jobDescription);
+  const [atsProfileId, setAtsProfileId] = useState<AtsProfileId>(record.atsProfileId);
+  const ats = useMemo(() => computeAtsResult(draft, atsProfileId), [draft, atsProfileId]);
+  const jobMatch = useMemo(() => computeJobMatch(draft, jobDescription), [draft, jobDescription]);
+  const fitInputs = useMemo(() => ({ draft, template, sectionLayout, typography, pageSize }), [draft, template, sectionLayout, typography, pageSize]);
+  const [previewFit, setPreviewFit] = useState<{ inputs: typeof fitInputs; step: number } | null>(null);
+  const minFitStep = previewFit?.inputs === fitInputs ? previewFit.step : 0;
+  const onePageFit = useMemo(
+    () => (fitToOnePage ? fitResumeToOnePage(draft, template, sectionLayout, typography, pageSize, minFitStep) : null),
+    [fitToOnePage, draft, template, sectionLayout, typography, pageSize, minFitStep],
+  );
+  const pageTypography = onePageFit?.typography ?? typography;
+
+  // The PDF and the on-screen pages wrap text differently, so keep fitting until the measured preview fits too.
+  const handlePreviewLayout = useCallback(
+    (layout: PreviewLayout) => {
+      setPreviewLayout(layout);
+      if (onePageFit && layout.pageCount > 1 && !onePageFit.exhausted) setPreviewFit({ inputs: fitInputs, step: onePageFit.step + 1 });
+    },
+    [onePageFit, fitInputs],
+  );
 
   useEffect(() => {
-    localStorage.setItem(TEMPLATE_STORAGE_KEY, template);
-  }, [template]);
+    setActiveResume(record.id);
+  }, [record.id]);
 
   useEffect(() => {
-    localStorage.setItem(ACCENT_STORAGE_KEY, accentTheme.id);
-  }, [accentTheme]);
+    updateResumeRecord(record.id, { template, accentColor, typography, pageSize, fitToOnePage, sectionLayout, atsProfileId });
+  }, [record.id, template, accentColor, typography, pageSize, fitToOnePage, sectionLayout, atsProfileId]);
 
   useEffect(() => {
-    const reloadDraft = () => setDraft(readResumeDraft());
-    const onStorage = (event: StorageEvent) => {
-      if (!event.key || event.key === RESUME_STORAGE_KEY) reloadDraft();
+    const reloadDraft = () => {
+      const latest = readResumeRecord(record.id);
+      if (!latest) return;
+      setName(latest.name);
+      setDraft(latest.draft);
+      setTemplate(latest.template);
+      setAccentColor(latest.accentColor);
+      setTypography(latest.typography);
+      setPageSize(latest.pageSize);
+      setFitToOnePage(latest.fitToOnePage);
+      setSectionLayout(latest.sectionLayout);
+      setAtsProfileId(latest.atsProfileId);
+      setJobDescription(latest.jobDescription);
     };
+    const unsubscribe = subscribeAppStorage((key) => {
+      if (key === RESUME_LIBRARY_KEY) reloadDraft();
+    });
 
-    window.addEventListener('storage', onStorage);
     window.addEventListener('focus', reloadDraft);
     document.addEventListener('visibilitychange', reloadDraft);
     return () => {
-      window.removeEventListener('storage', onStorage);
+      unsubscribe();
       window.removeEventListener('focus', reloadDraft);
       document.removeEventListener('visibilitychange', reloadDraft);
     };
-  }, []);
+  }, [record.id]);
+
+  const changeTemplate = (next: ResumeTemplate) => {
+    setSectionLayout((prev) => withTemplateSectionOrder(prev, template, next));
+    setTemplate(next);
+  };
 
   const checkAndWarn = () => {
-    if (shouldWarnIncomplete(draft)) {
-      setWarning('Your resume may look incomplete.');
-    } else {
-      setWarning('');
-    }
+    setWarnings([
+      ...(shouldWarnIncomplete(draft) ? ['Your resume may look incomplete.'] : []),
+      ...toInvalidFieldWarnings(getInvalidDraftFields(draft)),
+    ]);
   };
 
   const handlePrint = () => {
@@ -1613,16 +7685,42 @@ function CleanPreviewPage() {
     window.print();
   };
 
+  const textFormatSpec = RESUME_TEXT_FORMATS.find((item) => item.id === textFormat) ?? RESUME_TEXT_FORMATS[0];
+
   const handleCopyText = async () => {
     checkAndWarn();
-    await navigator.clipboard.writeText(toPlainTextResume(draft));
-    setCopyState('Resume text copied');
+    await navigator.clipboard.writeText(toResumeText(draft, textFormat, { template, accentColor, typography: pageTypography, pageSize, sectionLayout }));
+    setCopyState(`Resume ${textFormatSpec.label} copied`);
     setTimeout(() => setCopyState(''), 1500);
   };
 
+  const handleDownloadText = () => {
+    checkAndWarn();
+    downloadFile(
+      `${toFileSlug(draft)}.${textFormatSpec.extension}`,
+      toResumeText(draft, textFormat, { template, accentColor, typography: pageTypography, pageSize, sectionLayout }),
+      textFormatSpec.mimeType,
+    );
+  };
+
+  const handleExportJsonResume = () => {
+    checkAndWarn();
+    downloadFile(`${toFileSlug(draft)}.json`, JSON.stringify(toJsonResume(draft), null, 2), 'application/json');
+  };
+
+  const handleDownloadDocx = () => {
+    checkAndWarn();
+    downloadFile(
+      `${toFileSlug(draft)}.docx`,
+      createResumeDocx(draft, template, accentColor, sectionLayout, pageTypography, pageSize),
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    );
+  };
+
   const handleDownloadPdf = () => {
     checkAndWarn();
-    setPdfToast('PDF export ready! Check your downloads.');
+    downloadFile(`${toFileSlug(draft)}.pdf`, createResumePdf(draft, template, accentColor, sectionLayout, pageTypography, pageSize), 'application/pdf');
+    setPdfToast('PDF downloaded. Check your downloads.');
     setTimeout(() => setPdfToast(''), 1500);
   };
 
@@ -1630,12 +7728,33 @@ function CleanPreviewPage() {
     <div className="app-shell preview-shell">
       <header className="top-bar">
         <div className="top-bar__left">AI Resume Builder</div>
-        <div className="top-bar__center">Preview</div>
+        <div className="top-bar__center">Preview - {name}</div>
         <span className="status-badge preview-badge">Ready</span>
       </header>
       <ProductNav />
-      <TemplateTabs template={template} onChange={setTemplate} />
-      <ColorThemePicker selected={accentTheme} onChange={setAccentTheme} />
+      <div className="no-print">
+        <ResumeLibraryPanel currentId={record.id} basePath="/preview" />
+      </div>
+      <TemplateTabs template={template} onChange={changeTemplate} />
+      <ColorThemePicker color={accentColor} onChange={setAccentColor} />
+      <TypographyControls typography={typography} onChange={setTypography} />
+      <div className="page-controls no-print">
+        <select
+          className="input format-select"
+          aria-label="Page size"
+          value={pageSize}
+          onChange={(event) => setPageSize(toPageSizeChoice(event.target.value).id)}
+        >
+          {PAGE_SIZES.map((size) => (
+            <option key={size.id} value={size.id}>{size.label}</option>
+          ))}
+        </select>
+        <label className="page-fit-toggle">
+          <input type="checkbox" checked={fitToOnePage} onChange={(event) => setFitToOnePage(event.target.checked)} />
+          Fit to One Page
+        </label>
+        {onePageFit ? <p className="inline-guidance">{describeOnePageFit(onePageFit, typography, previewLayout)}</p> : null}
+      </div>
       <div className="preview-actions no-print">
         <button type="button" className="button" onClick={handleDownloadPdf}>
           Download PDF
@@ -1643,13 +7762,36 @@ function CleanPreviewPage() {
         <button type="button" className="button" onClick={handlePrint}>
           Print / Save as PDF
         </button>
+        <select
+          className="input format-select"
+          aria-label="Text export format"
+          value={textFormat}
+          onChange={(event) => setTextFormat(event.target.value as ResumeTextFormat)}
+        >
+          {RESUME_TEXT_FORMATS.map((format) => (
+            <option key={format.id} value={format.id}>{format.label}</option>
+          ))}
+        </select>
         <button type="button" className="button" onClick={handleCopyText}>
-          Copy Resume as Text
+          Copy as {textFormatSpec.label}
+        </button>
+        <button type="button" className="button" onClick={handleDownloadText}>
+          Download .{textFormatSpec.extension}
+        </button>
+        <button type="button" className="button" onClick={handleDownloadDocx}>
+          Download Word (.docx)
+        </button>
+        <button type="button" className="button" onClick={handleExportJsonResume}>
+          Export JSON Resume
         </button>
       </div>
       <div className="ats-preview-panel no-print">
         <h3>ATS Resume Score</h3>
-        <AtsScoreCircle score={ats.score} />
+        <AtsProfilePicker profileId={atsProfileId} onChange={setAtsProfileId} />
+        <div className="score-row">
+          <AtsScoreCircle score={ats.score} />
+          {jobMatch ? <span className="job-match-badge">Job Match {jobMatch.score}%</span> : null}
+        </div>
         <div className="suggestions">
           {ats.suggestions.length ? (
             ats.suggestions.map((item) => <p key={item}>{item}</p>)
@@ -1657,20 +7799,480 @@ function CleanPreviewPage() {
             <p>Great work. Your resume is well balanced.</p>
           )}
         </div>
+        <AtsBreakdown result={ats} />
+        {jobMatch ? <JobMatchDetails report={jobMatch} /> : null}
       </div>
-      {(warning || copyState || pdfToast) ? (
+      {(warnings.length || copyState || pdfToast) ? (
         <div className="preview-feedback no-print">
-          {warning ? <p>{warning}</p> : null}
+          {warnings.map((item) => <p key={item}>{item}</p>)}
           {copyState ? <p>{copyState}</p> : null}
           {pdfToast ? <p>{pdfToast}</p> : null}
         </div>
       ) : null}
-      <ResumePreviewDocument
-        draft={draft}
-        template={template}
-        accentColor={accentTheme.color}
-        className="preview-paper"
-      />
+      <PagedPreview
+        definition={resolveResumeTemplate(template, pageTypography)}
+        accentColor={accentColor}
+        pageSize={pageSize}
+        onLayoutChange={handlePreviewLayout}
+      >
+        <ResumePreviewDocument
+          draft={draft}
+          template={template}
+          accentColor={accentColor}
+          typography={pageTypography}
+          pageSize={pageSize}
+          sectionLayout={sectionLayout}
+        />
+      </PagedPreview>
+    </div>
+  );
+}
+
+function CoverLetterPage({ record }: ResumePageProps) {
+  const [name, setName] = useState(record.name);
+  const [draft, setDraft] = useState<ResumeDraft>(record.draft);
+  const [template, setTemplate] = useState<ResumeTemplate>(record.template);
+  const [accentColor, setAccentColor] = useState(record.accentColor);
+  const [typography, setTypography] = useState<ResumeTypography>(record.typography);
+  const [letter, setLetter] = useState<CoverLetter>(record.coverLetter);
+  const [pageSize, setPageSize] = useState<PageSizeId>(record.coverLetterPageSize);
+  const [feedback, setFeedback] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const structure = COVER_LETTER_STRUCTURES.find((item) => item.id === letter.structure) ?? COVER_LETTER_STRUCTURES[0];
+
+  useEffect(() => {
+    setActiveResume(record.id);
+  }, [record.id]);
+
+  useEffect(() => {
+    updateResumeRecord(record.id, { template, accentColor, typography, coverLetter: letter, coverLetterPageSize: pageSize });
+  }, [record.id, template, accentColor, typography, letter, pageSize]);
+
+  useEffect(() => {
+    const reloadDraft = () => {
+      const latest = readResumeRecord(record.id);
+      if (!latest) return;
+      setName(latest.name);
+      setDraft(latest.draft);
+      setTemplate(latest.template);
+      setAccentColor(latest.accentColor);
+      setTypography(latest.typography);
+      setLetter(latest.coverLetter);
+      setPageSize(latest.coverLetterPageSize);
+    };
+    const unsubscribe = subscribeAppStorage((key) => {
+      if (key === RESUME_LIBRARY_KEY) reloadDraft();
+    });
+
+    window.addEventListener('focus', reloadDraft);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('focus', reloadDraft);
+    };
+  }, [record.id]);
+
+  const updateLetter = (patch: Partial<CoverLetter>) => setLetter((prev) => ({ ...prev, ...patch }));
+
+  const changeTemplate = (next: ResumeTemplate) => {
+    const latest = readResumeRecord(record.id);
+    if (latest) updateResumeRecord(record.id, { sectionLayout: withTemplateSectionOrder(latest.sectionLayout, template, next) });
+    setTemplate(next);
+  };
+
+  const generateBody = () => {
+    if (letter.body.trim() && !window.confirm('Replace the current letter text with a new draft from your resume?')) return;
+    updateLetter({ body: buildCoverLetterBody(draft, letter) });
+  };
+
+  const showFeedback = (message: string) => {
+    setFeedback(message);
+    setTimeout(() => setFeedback(''), 1500);
+  };
+
+  const fileSlug = `${toFileSlug(draft)}-cover-letter`;
+
+  const checkContactDetails = () => {
+    setWarnings(toInvalidFieldWarnings(getInvalidDraftFields(draft).filter((item) => item.field === 'email' || item.field === 'phone')));
+  };
+
+  const handlePrint = () => {
+    checkContactDetails();
+    window.print();
+  };
+
+  const handleCopyText = async () => {
+    checkContactDetails();
+    await navigator.clipboard.writeText(toCoverLetterText(draft, letter));
+    showFeedback('Cover letter copied');
+  };
+
+  const handleDownloadText = () => {
+    checkContactDetails();
+    downloadFile(`${fileSlug}.txt`, toCoverLetterText(draft, letter), 'text/plain');
+  };
+
+  const handleDownloadPdf = () => {
+    checkContactDetails();
+    downloadFile(`${fileSlug}.pdf`, createCoverLetterPdf(draft, letter, template, accentColor, typography, pageSize), 'application/pdf');
+    showFeedback('PDF downloaded. Check your downloads.');
+  };
+
+  return (
+    <div className="app-shell preview-shell">
+      <header className="top-bar">
+        <div className="top-bar__left">AI Resume Builder</div>
+        <div className="top-bar__center">Cover Letter - {name}</div>
+        <span className="status-badge preview-badge">{letter.body.trim() ? 'Drafted' : 'Not Started'}</span>
+      </header>
+      <ProductNav />
+      <div className="no-print">
+        <ResumeLibraryPanel currentId={record.id} basePath="/cover-letter" />
+      </div>
+      <section className="cover-letter-editor no-print">
+        <input className="input" placeholder="Company" value={letter.company} onChange={(e) => updateLetter({ company: e.target.value })} />
+        <input className="input" placeholder="Role" value={letter.role} onChange={(e) => updateLetter({ role: e.target.value })} />
+        <input
+          className="input"
+          placeholder="Hiring manager (optional)"
+          value={letter.hiringManager}
+          onChange={(e) => updateLetter({ hiringManager: e.target.value })}
+        />
+        <select
+          className="input format-select"
+          aria-label="Letter structure"
+          value={letter.structure}
+          onChange={(e) => updateLetter({ structure: toCoverLetterStructure(e.target.value) })}
+        >
+          {COVER_LETTER_STRUCTURES.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <p className="inline-guidance">{structure.description}</p>
+        <button type="button" className="button" onClick={generateBody}>
+          Draft From Resume
+        </button>
+        <textarea
+          className="textarea cover-letter-textarea"
+          placeholder="Write your letter here, or draft it from your resume. Leave a blank line between paragraphs; start lines with - for a list."
+          value={letter.body}
+          onChange={(e) => updateLetter({ body: e.target.value })}
+        />
+        <p className="inline-guidance">Your name, contact details, greeting and sign-off are added around the letter text.</p>
+      </section>
+      <TemplateTabs template={template} onChange={changeTemplate} />
+      <ColorThemePicker color={accentColor} onChange={setAccentColor} />
+      <TypographyControls typography={typography} onChange={setTypography} />
+      <div className="page-controls no-print">
+        <select
+          className="input format-select"
+          aria-label="Cover letter page size"
+          value={pageSize}
+          onChange={(event) => setPageSize(toPageSizeChoice(event.target.value).id)}
+        >
+          {PAGE_SIZES.map((size) => (
+            <option key={size.id} value={size.id}>{size.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="preview-actions no-print">
+        <button type="button" className="button" onClick={handleDownloadPdf}>
+          Download PDF
+        </button>
+        <button type="button" className="button" onClick={handlePrint}>
+          Print / Save as PDF
+        </button>
+        <button type="button" className="button" onClick={handleCopyText}>
+          Copy as Plain Text
+        </button>
+        <button type="button" className="button" onClick={handleDownloadText}>
+          Download .txt
+        </button>
+      </div>
+      {(warnings.length || feedback) ? (
+        <div className="preview-feedback no-print">
+          {warnings.map((item) => <p key={item}>{item}</p>)}
+          {feedback ? <p>{feedback}</p> : null}
+        </div>
+      ) : null}
+      <PagedPreview definition={resolveResumeTemplate(template, typography)} accentColor={accentColor} pageSize={pageSize}>
+        <CoverLetterDocument draft={draft} letter={letter} template={template} accentColor={accentColor} typography={typography} pageSize={pageSize} />
+      </PagedPreview>
+    </div>
+  );
+}
+
+type ApplicationScores = {
+  ats: number;
+  jobMatch: number | null;
+};
+
+type ApplicationCardProps = {
+  application: JobApplication;
+  resumes: ResumeRecord[];
+  defaultResumeId: string;
+  isOpen: boolean;
+  onToggle: () => void;
+  onChange: (patch: Partial<Omit<JobApplication, 'id' | 'updatedAt'>>) => void;
+  onDelete: () => void;
+};
+
+function ApplicationCard({ application, resumes, defaultResumeId, isOpen, onToggle, onChange, onDelete }: ApplicationCardProps) {
+  const [resumeId, setResumeId] = useState(application.resume?.resumeId ?? defaultResumeId);
+  const [showResume, setShowResume] = useState(false);
+  const snapshot = application.resume;
+  const { jobDescription } = application;
+  const scores = useMemo<ApplicationScores | null>(
+    () =>
+      snapshot
+        ? {
+          ats: computeAtsResult(snapshot.draft, snapshot.atsProfileId).score,
+          jobMatch: computeJobMatch(snapshot.draft, jobDescription)?.score ?? null,
+        }
+        : null,
+    [snapshot, jobDescription],
+  );
+  const status = APPLICATION_STATUSES.find((item) => item.id === application.status) ?? APPLICATION_STATUSES[0];
+  const summary = [
+    application.appliedOn ? `Applied ${formatIsoDate(application.appliedOn)}` : 'Not applied yet',
+    snapshot && scores ? `ATS ${scores.ats}/100 with ${snapshot.resumeName}` : 'No resume attached',
+    isFollowUpDue(application) ? `Follow-up due ${formatIsoDate(application.followUpOn)}` : '',
+  ].filter(Boolean);
+
+  const updateStatus = (next: ApplicationStatus) => {
+    const patch = { status: next, appliedOn: next !== 'saved' && !application.appliedOn ? getTodayIsoDate() : application.appliedOn };
+    const record = resumes.find((resume) => resume.id === resumeId);
+    // The copy that matters is the one sent, so take it when the application goes out rather than when it was saved.
+    const refresh =
+      next === 'applied' &&
+      application.status === 'saved' &&
+      record &&
+      (!snapshot || window.confirm(`Attach the current version of "${record.name}" as the resume you sent? The copy saved earlier will be replaced.`));
+    onChange(refresh ? { ...patch, resume: takeResumeSnapshot(record) } : patch);
+  };
+
+  const attachResume = () => {
+    const record = resumes.find((resume) => resume.id === resumeId);
+    if (!record) return;
+    if (snapshot && !window.confirm(`Replace the attached copy of "${snapshot.resumeName}" with the current version of "${record.name}"?`)) return;
+    onChange({ resume: takeResumeSnapshot(record) });
+  };
+
+  return (
+    <div className="entry-card application-card">
+      <div className="project-header-row">
+        <button type="button" className="library-item__name" onClick={onToggle} aria-expanded={isOpen}>
+          {application.company.trim() || 'Untitled company'} - {application.role.trim() || 'Untitled role'}
+        </button>
+        <span className="status-badge">{status.label}</span>
+      </div>
+      <p className="inline-guidance">{summary.join(' | ')}</p>
+      {isOpen ? (
+        <>
+          <input className="input" placeholder="Company" value={application.company} onChange={(e) => onChange({ company: e.target.value })} />
+          <input className="input" placeholder="Role" value={application.role} onChange={(e) => onChange({ role: e.target.value })} />
+          <div className="application-fields">
+            <label className="application-field">
+              <span>Status</span>
+              <select className="input" value={application.status} onChange={(e) => updateStatus(toApplicationStatus(e.target.value))}>
+                {APPLICATION_STATUSES.map((option) => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="application-field">
+              <span>Date applied</span>
+              <input className="input" type="date" value={application.appliedOn} onChange={(e) => onChange({ appliedOn: toIsoDate(e.target.value) })} />
+            </label>
+            <label className="application-field">
+              <span>Follow up on</span>
+              <input className="input" type="date" value={application.followUpOn} onChange={(e) => onChange({ followUpOn: toIsoDate(e.target.value) })} />
+            </label>
+          </div>
+          <textarea
+            className="textarea"
+            placeholder="Paste the job description"
+            value={application.jobDescription}
+            onChange={(e) => onChange({ jobDescription: e.target.value })}
+          />
+          <textarea className="textarea" placeholder="Notes (contacts, interview prep, salary)" value={application.notes} onChange={(e) => onChange({ notes: e.target.value })} />
+          <h3>Resume Sent</h3>
+          {snapshot && scores ? (
+            <>
+              <p className="inline-guidance">
+                Copy of {snapshot.resumeName} saved {new Date(snapshot.takenAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}.
+                Later edits to the resume do not change it.
+              </p>
+              <p>
+                ATS score: <strong>{scores.ats}/100</strong> ({toAtsProfileChoice(snapshot.atsProfileId).label} profile)
+                {scores.jobMatch === null ? null : (
+                  <>
+                    {' '}| Job match: <strong>{scores.jobMatch}%</strong>
+                  </>
+                )}
+              </p>
+              <button type="button" className="button" onClick={() => setShowResume((prev) => !prev)}>
+                {showResume ? 'Hide Resume Sent' : 'View Resume Sent'}
+              </button>
+              {showResume ? (
+                <ResumePreviewDocument
+                  draft={snapshot.draft}
+                  template={snapshot.template}
+                  accentColor={snapshot.accentColor}
+                  typography={snapshot.typography}
+                  sectionLayout={snapshot.sectionLayout}
+                  className="preview-paper"
+                />
+              ) : null}
+            </>
+          ) : (
+            <p className="inline-guidance">
+              {application.status === 'saved'
+                ? 'The resume selected below is attached when you mark this application as applied.'
+                : 'Attach the resume you sent so its exact content and ATS score stay with this application.'}
+            </p>
+          )}
+          <div className="action-row">
+            <select className="input format-select" aria-label="Resume to attach" value={resumeId} onChange={(e) => setResumeId(e.target.value)}>
+              {resumes.map((resume) => (
+                <option key={resume.id} value={resume.id}>{resume.name}</option>
+              ))}
+            </select>
+            <button type="button" className="button" onClick={attachResume} disabled={!resumeId}>
+              {snapshot ? 'Replace With Current Version' : 'Attach Current Version'}
+            </button>
+          </div>
+          <button type="button" className="button" onClick={onDelete}>Delete Application</button>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function ApplicationsPage() {
+  const [applications, setApplications] = useState<JobApplication[]>(readApplications);
+  const [library, setLibrary] = useState(readResumeLibrary);
+  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | 'all'>('all');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const pendingWriteRef = useRef<JobApplication[] | null>(null);
+  const dueApplications = applications.filter((application) => isFollowUpDue(application));
+  const visibleApplications = statusFilter === 'all' ? applications : applications.filter((application) => application.status === statusFilter);
+  const defaultResumeId = library.resumes.some((resume) => resume.id === library.activeId) ? library.activeId : library.resumes[0]?.id ?? '';
+
+  const flushApplications = useCallback(() => {
+    if (!pendingWriteRef.current) return;
+    writeApplications(pendingWriteRef.current);
+    pendingWriteRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = subscribeAppStorage((key) => {
+      if (key === APPLICATIONS_KEY && !pendingWriteRef.current) setApplications(readApplications());
+      if (key === RESUME_LIBRARY_KEY) setLibrary(readResumeLibrary());
+    });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(flushApplications, APPLICATIONS_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [applications, flushApplications]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushApplications);
+    return () => {
+      window.removeEventListener('pagehide', flushApplications);
+      flushApplications();
+    };
+  }, [flushApplications]);
+
+  // Typing in a card updates state right away; the storage write waits until the typing pauses.
+  const commitApplications = (next: JobApplication[]) => {
+    pendingWriteRef.current = next;
+    setApplications(next);
+  };
+
+  const addApplication = () => {
+    const application = createJobApplication();
+    commitApplications([application, ...applications]);
+    flushApplications();
+    setStatusFilter('all');
+    setOpenId(application.id);
+  };
+
+  const updateApplication = (id: string, patch: Partial<Omit<JobApplication, 'id' | 'updatedAt'>>) => {
+    commitApplications(
+      applications.map((application) =>
+        application.id === id ? { ...application, ...patch, updatedAt: new Date().toISOString() } : application),
+    );
+  };
+
+  const deleteApplication = (application: JobApplication) => {
+    const name = [application.company.trim(), application.role.trim()].filter(Boolean).join(' - ') || 'this application';
+    if (!window.confirm(`Delete ${name}? This cannot be undone.`)) return;
+    commitApplications(applications.filter((item) => item.id !== application.id));
+    flushApplications();
+  };
+
+  return (
+    <div className="app-shell">
+      <header className="top-bar">
+        <div className="top-bar__left">AI Resume Builder</div>
+        <div className="top-bar__center">Applications</div>
+        <span className="status-badge">{countLabel(applications.length, 'application')}</span>
+      </header>
+      <ProductNav />
+      <section className="applications-page">
+        {dueApplications.length > 0 ? (
+          <div className="entry-card application-reminders" role="status">
+            <h3>Follow-ups Due ({dueApplications.length})</h3>
+            {dueApplications.map((application) => (
+              <div key={application.id} className="project-header-row">
+                <span>
+                  {application.company.trim() || 'Untitled company'} - {application.role.trim() || 'Untitled role'}: follow up{' '}
+                  {formatIsoDate(application.followUpOn)}
+                </span>
+                <div className="action-row">
+                  <button type="button" className="button" onClick={() => setOpenId(application.id)}>Open</button>
+                  <button type="button" className="button" onClick={() => updateApplication(application.id, { followUpOn: '' })}>
+                    Mark Done
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+        <div className="action-row" role="group" aria-label="Filter by status">
+          {[{ id: 'all' as const, label: 'All' }, ...APPLICATION_STATUSES].map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              className={`button ${statusFilter === option.id ? 'button-accent' : ''}`}
+              aria-pressed={statusFilter === option.id}
+              onClick={() => setStatusFilter(option.id)}
+            >
+              {option.label} ({option.id === 'all' ? applications.length : applications.filter((application) => application.status === option.id).length})
+            </button>
+          ))}
+        </div>
+        <button type="button" className="button button-accent" onClick={addApplication}>Add Application</button>
+        {visibleApplications.length === 0 ? (
+          <p className="inline-guidance">
+            {applications.length === 0 ? 'No applications yet. Add one to keep track of the resume you sent.' : 'No applications with this status.'}
+          </p>
+        ) : null}
+        {visibleApplications.map((application) => (
+          <ApplicationCard
+            key={application.id}
+            application={application}
+            resumes={library.resumes}
+            defaultResumeId={defaultResumeId}
+            isOpen={openId === application.id}
+            onToggle={() => setOpenId(openId === application.id ? null : application.id)}
+            onChange={(patch) => updateApplication(application.id, patch)}
+            onDelete={() => deleteApplication(application)}
+          />
+        ))}
+      </section>
     </div>
   );
 }
@@ -1695,13 +8297,92 @@ function AppProofPage() {
   );
 }
 
+function StorageIssuesBanner() {
+  const issues = useSyncExternalStore(subscribeStorageIssues, getStorageIssues);
+  if (!issues.length) return null;
+
+  const downloadBackup = (issue: StorageIssue) => {
+    downloadFile(`${issue.key}-backup.json`, appStorage.getItem(issue.backupKey) ?? '', 'application/json');
+  };
+
+  return (
+    <section className="storage-issues no-print" role="alert">
+      <strong>Some saved data could not be loaded.</strong>
+      <p>
+        The saved data is left untouched and a backup copy was made. Defaults are used for now, and changes stay in this session until you
+        choose to replace the saved data.
+      </p>
+      {issues.map((issue) => (
+        <div key={getStorageIssueId(issue)} className="storage-issue">
+          <span>
+            <code>{issue.key}</code>: {issue.message}
+          </span>
+          <div className="preview-actions">
+            {issue.kind !== 'unavailable' ? (
+              <button type="button" className="button" onClick={() => downloadBackup(issue)}>Download Backup</button>
+            ) : null}
+            {issue.kind !== 'write-failed' && issue.kind !== 'unavailable' ? (
+              <button
+                type="button"
+                className="button"
+                onClick={() => {
+                  if (window.confirm(`Replace the saved ${issue.key} data with what you have now? Download the backup first if you need it.`)) {
+                    releaseStorageKey(issue);
+                  }
+                }}
+              >
+                Replace Saved Data
+              </button>
+            ) : null}
+            <button type="button" className="button" onClick={() => dismissStorageIssue(issue)}>Dismiss</button>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+function ActiveResumeRedirect({ basePath }: { basePath: ResumeLibraryPanelProps['basePath'] }) {
+  return <Navigate to={`${basePath}/${readResumeLibrary().activeId}`} replace />;
+}
+
+function ResumeRoute({ page }: { page: 'builder' | 'preview' | 'cover-letter' }) {
+  const { resumeId } = useParams();
+  const record = resumeId ? readResumeRecord(resumeId) : null;
+  if (!record) return <ActiveResumeRedirect basePath={`/${page}`} />;
+  if (page === 'cover-letter') return <CoverLetterPage key={record.id} record={record} />;
+  return page === 'builder' ? <BuilderPage key={record.id} record={record} /> : <CleanPreviewPage key={record.id} record={record} />;
+}
+
 function App() {
+  const [storageReady, setStorageReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    void initAppStorage()
+      .catch((error: unknown) => reportStorageUnavailable(storageBackend.name, 'memory', error))
+      .finally(() => {
+        if (active) setStorageReady(true);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  if (!storageReady) return null;
+
   return (
     <BrowserRouter>
+      <StorageIssuesBanner />
       <Routes>
         <Route path="/" element={<HomePage />} />
-        <Route path="/builder" element={<BuilderPage />} />
-        <Route path="/preview" element={<CleanPreviewPage />} />
+        <Route path="/builder" element={<ActiveResumeRedirect basePath="/builder" />} />
+        <Route path="/builder/:resumeId" element={<ResumeRoute page="builder" />} />
+        <Route path="/preview" element={<ActiveResumeRedirect basePath="/preview" />} />
+        <Route path="/preview/:resumeId" element={<ResumeRoute page="preview" />} />
+        <Route path="/cover-letter" element={<ActiveResumeRedirect basePath="/cover-letter" />} />
+        <Route path="/cover-letter/:resumeId" element={<ResumeRoute page="cover-letter" />} />
+        <Route path="/applications" element={<ApplicationsPage />} />
         <Route path="/proof" element={<AppProofPage />} />
         <Route path="/rb/proof" element={<ProofPage />} />
         <Route path="/rb/:stepSlug" element={<StepPage />} />